@@ -0,0 +1,73 @@
+// Compares the inline `encoding`s: how large each one makes a bundle (before and after compression), and how long that bundle takes to load.
+//
+// Usage: pnpm benchmark [size in KB, default 1024] [runs, default 9]
+// (Uses the built plugin in dist, which `pnpm benchmark` builds first)
+
+import { randomBytes } from "crypto";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { performance } from "perf_hooks";
+import { pathToFileURL } from "url";
+import { brotliCompressSync, gzipSync } from "zlib";
+import { rollup } from "rollup";
+import dataPlugin from "../dist/es/index.js";
+
+const size = 1024 * (+process.argv[2] || 1024);
+const runs = +process.argv[3] || 9;
+const encodings = ["base64", "base85", "latin1"];
+
+// Random bytes are the worst case for every encoding; text (or anything else with a lot of ASCII in it) is kinder to latin1.
+const words = "the quick brown fox jumps over a lazy dog while { \"json\": [1, 2, 3] } and <html> tags </html> go by\n".split(" ");
+const payloads = {
+    random: randomBytes(size),
+    text: Buffer.from(Array.from({ length: size }, () => words[Math.floor(Math.random() * words.length)]).join(" ").substring(0, size))
+};
+
+const directory = await mkdtemp(join(tmpdir(), "rollup-plugin-data-benchmark-"));
+try {
+    const results = [];
+    for (const [payload, data] of Object.entries(payloads)) {
+        await writeFile(join(directory, `${payload}.bin`), data);
+        await writeFile(join(directory, `${payload}.js`), `import data from "datafile:./${payload}.bin";\nexport default data;\n`);
+
+        for (const encoding of encodings) {
+            const bundle = await rollup({
+                input: join(directory, `${payload}.js`),
+                plugins: [dataPlugin({ fileTypes: { ".bin": { mode: "array-buffer", timing: "sync", encoding } } })]
+            });
+            const { output: [{ code }] } = await bundle.generate({ format: "es" });
+            await bundle.close();
+
+            const file = join(directory, `${payload}-${encoding}.mjs`);
+            await writeFile(file, code);
+
+            // Each import gets its own URL, so that it's parsed and decoded again instead of coming from the module cache.
+            const times = [];
+            for (let i = 0; i < runs; ++i) {
+                const start = performance.now();
+                const { default: decoded } = await import(`${pathToFileURL(file).href}?run=${i}`);
+                times.push(performance.now() - start);
+                if (!Buffer.from(decoded).equals(data))
+                    throw new Error(`${payload} didn't survive being encoded as ${encoding}`);
+            }
+            times.sort((a, b) => a - b);
+
+            const bytes = Buffer.from(code);
+            results.push({
+                payload,
+                encoding,
+                "bundle (KB)": +(bytes.length / 1024).toFixed(1),
+                "gzip (KB)": +(gzipSync(bytes).length / 1024).toFixed(1),
+                "brotli (KB)": +(brotliCompressSync(bytes).length / 1024).toFixed(1),
+                "load (ms, median)": +times[Math.floor(times.length / 2)].toFixed(2)
+            });
+        }
+    }
+
+    console.log(`${size / 1024} KB of data, ${runs} runs each (Uint8Array.fromBase64 is ${typeof Uint8Array.fromBase64 == "function" ? "" : "not "}available)`);
+    console.table(results);
+}
+finally {
+    await rm(directory, { recursive: true, force: true });
+}
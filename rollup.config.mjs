@@ -2,12 +2,15 @@ import typescript from "@rollup/plugin-typescript";
 import { readFileSync } from 'fs';
 import { builtinModules } from 'module';
 
-export default {
-  ...createConfig({
-    pkg: JSON.parse(readFileSync(new URL('./package.json', import.meta.url), 'utf8'))
-  }),
-  input: 'src/index.ts'
-};
+export default [
+  {
+    ...createConfig({
+      pkg: JSON.parse(readFileSync(new URL('./package.json', import.meta.url), 'utf8'))
+    }),
+    input: 'src/index.ts'
+  },
+  createRuntimeConfig()
+];
 
 function createConfig({ pkg, external = [] }) {
   return {
@@ -39,6 +42,29 @@ function createConfig({ pkg, external = [] }) {
   };
 }
 
+// The helpers that the generated code imports, which the plugin reads from dist/runtime and serves as a virtual module (and the tests import directly).
+// (No source maps or comments, since they'd end up in everyone's bundle; see src/runtime/tsconfig.json)
+function createRuntimeConfig() {
+  return {
+    input: {
+      decode: 'src/runtime/decode.ts',
+      node: 'src/runtime/node.ts'
+    },
+    external: builtinModules.map((id) => `node:${id}`),
+    onwarn: (warning) => {
+      throw Object.assign(new Error(), warning);
+    },
+    strictDeprecations: true,
+    output: {
+      format: 'es',
+      dir: 'dist/runtime',
+      entryFileNames: '[name].js',
+      plugins: [emitModulePackageFile()]
+    },
+    plugins: [typescript({ tsconfig: 'src/runtime/tsconfig.json', declarationDir: undefined })]
+  };
+}
+
 function emitModulePackageFile() {
   return {
     name: 'emit-module-package-file',
@@ -0,0 +1,213 @@
+import { inflateSync } from "zlib";
+
+export interface ImageMetadata {
+    width: number;
+    height: number;
+    /** The MIME type, as detected from the file's contents (not its extension) */
+    mime: string;
+    /** The average colour of the image (weighted by alpha), as `#rrggbb`. Only available for (non-interlaced, 8-bit) PNGs. */
+    averageColor: string | null;
+}
+
+/**
+ * Reads the size of an image from just its header, for all the common web image formats.
+ *
+ * (Note that a JPEG's EXIF orientation isn't taken into account, so rotated photos will have their width and height swapped)
+ *
+ * @returns `null` if the image's format isn't recognized.
+ */
+export function getImageMetadata(data: Buffer): ImageMetadata | null {
+    const size = getImageSize(data);
+    if (!size)
+        return null;
+    let averageColor: string | null = null;
+    if (size.mime == "image/png") {
+        try {
+            averageColor = getPngAverageColor(data);
+        }
+        catch {
+            // A PNG that's broken in some way we didn't check for (the size came from its header, which was fine) just doesn't get a colour
+        }
+    }
+    return { ...size, averageColor };
+}
+
+function getImageSize(data: Buffer): Omit<ImageMetadata, "averageColor"> | null {
+    const ascii = (start: number, end: number) => data.toString("latin1", start, end);
+
+    if (data.length >= 24 && data.readUInt32BE(0) == 0x89504E47 && ascii(12, 16) == "IHDR")
+        return { mime: "image/png", width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+
+    if (data.length >= 10 && (ascii(0, 6) == "GIF87a" || ascii(0, 6) == "GIF89a"))
+        return { mime: "image/gif", width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+
+    if (data.length >= 30 && ascii(0, 4) == "RIFF" && ascii(8, 12) == "WEBP") {
+        switch (ascii(12, 16)) {
+            case "VP8 ": return { mime: "image/webp", width: data.readUInt16LE(26) & 0x3FFF, height: data.readUInt16LE(28) & 0x3FFF };
+            case "VP8L": {
+                const [b0, b1, b2, b3] = data.subarray(21, 25);
+                return { mime: "image/webp", width: 1 + (((b1 & 0x3F) << 8) | b0), height: 1 + (((b3 & 0xF) << 10) | (b2 << 2) | ((b1 & 0xC0) >> 6)) };
+            }
+            case "VP8X": return { mime: "image/webp", width: 1 + data.readUIntLE(24, 3), height: 1 + data.readUIntLE(27, 3) };
+        }
+        return null;
+    }
+
+    if (data.length >= 4 && data[0] == 0xFF && data[1] == 0xD8) {
+        // Walk through the JPEG's segments until we find the start of the frame, which has the image's size.
+        let i = 2;
+        while (i + 9 < data.length) {
+            if (data[i] != 0xFF) {
+                ++i;
+                continue;
+            }
+            const marker = data[i + 1];
+            if (marker == 0xFF) {
+                ++i;
+                continue;
+            }
+            if (marker >= 0xC0 && marker <= 0xCF && marker != 0xC4 && marker != 0xC8 && marker != 0xCC)
+                return { mime: "image/jpeg", height: data.readUInt16BE(i + 5), width: data.readUInt16BE(i + 7) };
+            if (marker == 0x01 || (marker >= 0xD0 && marker <= 0xD9))
+                i += 2;
+            else
+                i += 2 + data.readUInt16BE(i + 2);
+        }
+        return null;
+    }
+
+    if (data.length >= 12 && ascii(4, 8) == "ftyp" && ["avif", "avis", "mif1"].includes(ascii(8, 12))) {
+        // The image spatial extents property box has the size
+        const ispe = data.indexOf("ispe", 0, "latin1");
+        if (ispe >= 0 && ispe + 16 <= data.length)
+            return { mime: "image/avif", width: data.readUInt32BE(ispe + 8), height: data.readUInt32BE(ispe + 12) };
+        return null;
+    }
+
+    if (data.length >= 26 && ascii(0, 2) == "BM") {
+        if (data.readUInt32LE(14) == 12)
+            return { mime: "image/bmp", width: data.readUInt16LE(18), height: data.readUInt16LE(20) };
+        return { mime: "image/bmp", width: data.readInt32LE(18), height: Math.abs(data.readInt32LE(22)) };
+    }
+
+    if (data.length >= 22 && data.readUInt32BE(0) == 0x00000100) {
+        // Plenty of binary files start with 00 00 01 00, so the directory of images has to make sense too.
+        // The first (and usually largest) image in the icon; 0 means 256
+        const count = data.readUInt16LE(4);
+        const directoryEnd = 6 + 16 * count;
+        const imageSize = data.readUInt32LE(14), imageOffset = data.readUInt32LE(18);
+        if (count == 0 || data.length < directoryEnd || data[9] != 0 || data.readUInt16LE(10) > 1 || imageSize == 0 || imageOffset < directoryEnd || imageOffset + imageSize > data.length)
+            return null;
+        return { mime: "image/vnd.microsoft.icon", width: data[6] || 256, height: data[7] || 256 };
+    }
+
+    const text = data.toString("utf-8", 0, Math.min(data.length, 4096));
+    const svg = /<svg\s[^>]*>/i.exec(text);
+    if (svg) {
+        const attribute = (name: string) => new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, "i").exec(svg[0])?.[1];
+        // Percentages and other relative units don't tell us anything, so only plain numbers (or px) count.
+        const absolute = (value: string | undefined) => (value && /^\s*[0-9.]+\s*(px)?\s*$/.test(value)) ? parseFloat(value) : null;
+        const viewBox = attribute("viewBox")?.trim().split(/[\s,]+/).map(parseFloat);
+        const width = absolute(attribute("width")) ?? viewBox?.[2];
+        const height = absolute(attribute("height")) ?? viewBox?.[3];
+        if (width != null && height != null && !isNaN(width) && !isNaN(height))
+            return { mime: "image/svg+xml", width, height };
+        return null;
+    }
+
+    return null;
+}
+
+/**
+ * Decodes a PNG (just enough to average its pixels together) and returns its average colour.
+ *
+ * Only the common case of non-interlaced 8-bit images is handled; anything else returns `null`.
+ */
+function getPngAverageColor(data: Buffer): string | null {
+    let width = 0, height = 0, bitDepth = 0, colorType = 0, interlace = 0;
+    let palette: Buffer | null = null;
+    const idat: Buffer[] = [];
+
+    for (let i = 8; i + 8 <= data.length;) {
+        const length = data.readUInt32BE(i);
+        const type = data.toString("latin1", i + 4, i + 8);
+        // A chunk that's cut off (or claims to be longer than the file) means the file's truncated or corrupt
+        if (i + 12 + length > data.length)
+            return null;
+        const chunk = data.subarray(i + 8, i + 8 + length);
+        if (type == "IHDR") {
+            if (length < 13)
+                return null;
+            width = chunk.readUInt32BE(0);
+            height = chunk.readUInt32BE(4);
+            bitDepth = chunk[8];
+            colorType = chunk[9];
+            interlace = chunk[12];
+        }
+        else if (type == "PLTE")
+            palette = chunk;
+        else if (type == "IDAT")
+            idat.push(chunk);
+        else if (type == "IEND")
+            break;
+        i += 12 + length;
+    }
+
+    const channels = ({ 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 } as Record<number, number>)[colorType];
+    if (bitDepth != 8 || interlace != 0 || !channels || (colorType == 3 && !palette) || !width || !height)
+        return null;
+
+    let pixels: Buffer;
+    try {
+        pixels = inflateSync(Buffer.concat(idat));
+    }
+    catch {
+        return null;
+    }
+
+    const stride = width * channels;
+    if (pixels.length < (stride + 1) * height)
+        return null;
+
+    let previous = new Uint8Array(stride);
+    let r = 0, g = 0, b = 0, totalAlpha = 0;
+    for (let y = 0; y < height; ++y) {
+        const filter = pixels[y * (stride + 1)];
+        const row = new Uint8Array(pixels.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1)));
+        for (let x = 0; x < stride; ++x) {
+            const left = x >= channels ? row[x - channels] : 0;
+            const up = previous[x];
+            const upLeft = x >= channels ? previous[x - channels] : 0;
+            switch (filter) {
+                case 1: row[x] += left; break;
+                case 2: row[x] += up; break;
+                case 3: row[x] += (left + up) >> 1; break;
+                case 4: {
+                    const p = left + up - upLeft;
+                    const pa = Math.abs(p - left), pb = Math.abs(p - up), pc = Math.abs(p - upLeft);
+                    row[x] += (pa <= pb && pa <= pc) ? left : pb <= pc ? up : upLeft;
+                    break;
+                }
+            }
+        }
+
+        for (let x = 0; x < stride; x += channels) {
+            let pr: number, pg: number, pb: number, pa = 255;
+            switch (colorType) {
+                case 0: pr = pg = pb = row[x]; break;
+                case 4: pr = pg = pb = row[x]; pa = row[x + 1]; break;
+                case 3: pr = palette![row[x] * 3] ?? 0; pg = palette![row[x] * 3 + 1] ?? 0; pb = palette![row[x] * 3 + 2] ?? 0; break;
+                default: [pr, pg, pb] = row.subarray(x, x + 3); if (colorType == 6) pa = row[x + 3]; break;
+            }
+            r += pr * pa;
+            g += pg * pa;
+            b += pb * pa;
+            totalAlpha += pa;
+        }
+        previous = row;
+    }
+
+    if (!totalAlpha)
+        return null;
+    return `#${[r, g, b].map(c => Math.round(c / totalAlpha).toString(16).padStart(2, "0")).join("")}`;
+}
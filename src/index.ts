@@ -1,21 +1,43 @@
-import { FilterPattern, createFilter, normalizePath } from "@rollup/pluginutils";
+import { FilterPattern, createFilter, dataToEsm, makeLegalIdentifier, normalizePath } from "@rollup/pluginutils";
 import { createHash } from "crypto";
-import { readFile } from "fs/promises";
+import { readFile, readdir, stat, writeFile } from "fs/promises";
+import type { IncomingMessage, ServerResponse } from "http";
 import MagicString from "magic-string";
 import { basename, dirname, extname, isAbsolute, join, relative } from "path";
-import { InputPluginOption, SourceMapInput } from "rollup";
+import picomatch from "picomatch";
+import { InternalModuleFormat, OutputChunk, Plugin, PluginContext, SourceMapInput } from "rollup";
+import { brotliCompressSync, constants as zlibConstants, deflateSync, gzipSync } from "zlib";
+import { getImageMetadata } from "./image-metadata";
+import { findJsonErrorPosition } from "./json";
+import { JsonSchema, validateJsonSchema } from "./json-schema";
 
 const DATA_PREFIX = "datafile:";
 
+/** Data registered by other plugins (with `api.registerData`) is imported as `datafile:virtual:<name>`, and this is its "path". */
+const VIRTUAL_PREFIX = "virtual:";
+
 /** When we handle a datafile: id, ensure others don't handle it. The rest of the ID is stripped and replaced with a unique number. */
 const SELFISH_DATA_PREFIX = "\0datafile:";
 
+/** Same as above, but for `datafile:` ids that match a whole folder of files. */
+const SELFISH_GLOB_PREFIX = "\0datafile-glob:";
+
 
 
 
 type FetchLocation = "inline" | "asset";
-type FetchMethod = "sync" | "async";
-type FetchTypeMode = "json" | "array-buffer" | "text" | "blob" | "response";
+type FetchMethod = "sync" | "async" | "lazy";
+type FetchTypeMode = "json" | "array-buffer" | "text" | "blob" | "response" | "object-url" | "stream" | "image-bitmap" | "font-face" | "wasm-module";
+const FETCH_TYPE_MODES: FetchTypeMode[] = ["json", "array-buffer", "text", "blob", "response", "object-url", "stream", "image-bitmap", "font-face", "wasm-module"];
+const FETCH_LOCATIONS: FetchLocation[] = ["inline", "asset"];
+const FETCH_METHODS: FetchMethod[] = ["sync", "async", "lazy"];
+/** The options that can be given as import attributes (`with { ... }`, or `assert { ... }` in older versions of Rollup), or in the query string */
+const IMPORT_OPTIONS = ["location", "mode", "timing", "mime"] as const;
+export type IntegrityAlgorithm = "sha256" | "sha384" | "sha512";
+export type InlineCompression = "gzip" | "deflate";
+export type PrecompressFormat = "gzip" | "brotli";
+export type InlineEncoding = "base64" | "base85" | "latin1";
+export type DataFileFallback = "inline" | { value: unknown };
 
 interface DataPluginInfo {
     /** The original import path this asset was imported from (e.g. the string in `import data from "datafile:foo.png"`) */
@@ -24,17 +46,19 @@ interface DataPluginInfo {
     uniqueId: number;
     /** The original import where this file can be found, but normalized to a full path (e.g. "foo.png" in `import data from "datafile:foo.png"`, but as a full path) */
     inputFilePath: string;
-    // Always available, extracted from options (TODO)
-    outputDirectory: string;
-    // Only if location is "asset".
+    // Only if location is "asset", and only once the file's been read (its name may depend on its contents).
     outputFilePath: string | null;
 
     rawData: Buffer | null;
+    // The hash of `rawData`, so that re-reading a file in watch mode can tell if it actually changed.
+    hashContent: string | null;
+    // The name this asset asked to be emitted as (before identical files are deduplicated). Reset whenever its contents change.
+    assetFileName: string | null;
     // Used in file-related operations
     fileReferenceId: string | undefined;
 
-    // When true, the file needs its contents re-emitted.
-    // (When false, re-emitting causes Rollup to throw an error)
+    // When true, the file needs its contents (re-)read from disk.
+    // Set by watch mode whenever the file changes.
     dirty: boolean;
 
     /**
@@ -48,6 +72,7 @@ interface DataPluginInfo {
      * |`inline`|`async`|Embedded in the bundle|A promise to the file as a `Blob`, `JSON`, etc.|`fetch` is used to decode the Base64 off the main thread, but you must `await` the promise to get your import at some point.|
      * |`asset`|`sync`|Emitted as a separate file|The URL to the file|The asset is saved as a separate file. When importing, you're given the relative URL as a `string` to use in `<img>`s and so forth.|
      * |`asset`|`async`|Emitted as a separate file|A promise to the file as a `Blob`, `JSON`, etc.|The asset is saved as a separate file. When importing, you're given the file itself as a `Blob` or a `JSON` or whatever.|
+     * |(either)|`lazy`|(either)|A `LazyDataHandle`|Nothing is fetched or decoded until you call `load()` on the handle (or `preload()`). Inline data is embedded as a `data:` URL.|
      * 
      * 
      */
@@ -78,6 +103,13 @@ interface DataPluginInfo {
      * * `json`: Returns an object/array
      * * `text`: Returns a `string`
      * * `response`: Returns the raw `Response` from `fetch`
+     * * `object-url`: Returns a `blob:` URL from `URL.createObjectURL` (for `<img>`s and so on, even when the file's inline)
+     * * `stream`: Returns a `ReadableStream` of the file's bytes
+     * * `image-bitmap`: Returns an `ImageBitmap` from `createImageBitmap` (not available with `target: "node"`)
+     * * `font-face`: Returns a loaded `FontFace`, named after the file (change its `family` before adding it to `document.fonts` if you like). Not available with `target: "node"`.
+     * * `wasm-module`: Returns a compiled `WebAssembly.Module` (with `WebAssembly.compileStreaming` when possible)
+     * 
+     * `image-bitmap`, `font-face`, and `wasm-module` are always asynchronous (like `response`), even when the file's inline.
      * 
      * Note that this is not used if `location` is `"asset"` *and* `timing` is `"sync"`.
      */
@@ -85,13 +117,262 @@ interface DataPluginInfo {
 
     /** Only used when `location` is `"inline"`. */
     mime: string;
+
+    /**
+     * When `true`, each top-level key of a JSON object is also available as a named export (like `@rollup/plugin-json`), 
+     * so that the parts of a large file that you don't use can be tree-shaken away.
+     * 
+     * Only used when `location` is `"inline"` and `mode` is `"json"`. Can't be combined with `deferred`.
+     */
+    namedExports: boolean;
+
+    /**
+     * If provided, the file is checked against this JSON Schema at build time, and the build fails if it doesn't match.
+     * 
+     * Only used when `mode` is `"json"`. See `JsonSchema` for the keywords that are supported.
+     */
+    schema: JsonSchema | null;
+
+    /**
+     * When `true`, the image's `width`, `height`, `mime` and `size` (in bytes) are also available as named exports, read from the file's header at build time.
+     * 
+     * PNGs also export their `averageColor` (as `"#rrggbb"`), which can be used as a placeholder while the image loads; it's `null` for other formats.
+     * 
+     * Can't be combined with `deferred`.
+     */
+    imageMetadata: boolean;
+
+    /**
+     * If the file's `location` wasn't chosen explicitly (by extension, path, import attribute, or query param),
+     * then files larger than this many bytes are emitted as assets, and anything smaller is inlined.
+     * 
+     * Only the per-file value is kept here; it's `null` when the location was chosen explicitly (or there's no limit).
+     */
+    inlineLimit: number | null;
+
+    /**
+     * When set, assets that are fetched (`location: "asset"` with `timing: "async"` or `"lazy"`) are checked against a hash of the file that's computed at build time,
+     * and the import rejects (naming the file) if what was fetched doesn't match, e.g. because a CDN served something else.
+     * 
+     * The hash is passed to `fetch` as its `integrity` option, or checked with `crypto.subtle.digest` where that isn't supported (like when reading files with `target: "node"`).
+     * 
+     * `true` is the same as `"sha384"`.
+     */
+    integrity: boolean | IntegrityAlgorithm;
+
+    /**
+     * Preprocesses the file's data at build time (minifying it, converting it from another format, etc.) before it's inlined or emitted.
+     * 
+     * It can also change the file's `mime` and `mode` (e.g. a YAML file that's converted to `mode: "json"`).
+     * The result is cached by the file's contents, so in watch mode it only runs again when the file actually changes.
+     * 
+     * Can't be combined with `deferred`.
+     */
+    transform: DataFileTransform | null;
+
+    /**
+     * When set, inline data is compressed at build time and decompressed at runtime with `DecompressionStream`,
+     * but only if that actually makes it smaller (how much was saved is logged either way).
+     * 
+     * Only used when `location` is `"inline"`. Decompressing is asynchronous, so `timing` must be `"async"`, and it's not available with `target: "worklet"`.
+     * JSON files with `namedExports` are never compressed.
+     */
+    compress: InlineCompression | null;
+    // The compressed data, or `null` if it wasn't compressed (or compressing it didn't make it any smaller)
+    compressedData: Buffer | null;
+    // The hash of the data that was last compressed, so it's only compressed again when it changes
+    compressedHash: string | null;
+    // The `.gz`/`.br` versions of this asset (if `precompress` is on), along with the hash of the data they were made from
+    precompressed: { hash: string, sidecars: Array<{ extension: string, data: Buffer }> } | null;
+    // The mode and mime from before `transform` changed them (which is what it's given every time it runs)
+    untransformed: Pick<DataPluginInfo, "mode" | "mime">;
+    // The last result of `transform`, along with the hash of the data it was given
+    transformCache: { rawHash: string, result: DataFileTransformResult } | null;
+
+    /**
+     * How inline binary data (and compressed data) is written into the bundle:
+     * 
+     * * `base64` (the default): A `data:` URL, 4 bytes for every 3. Decoded with `Uint8Array.fromBase64` where it's available.
+     * * `base85`: Z85 (a variant of Ascii85 that's safe in string literals), 5 bytes for every 4, so about 6% smaller than base64 (but only before gzip).
+     * * `latin1`: A string with one character per byte, which is the fastest to decode. Bytes over 127 take up 2 bytes in a UTF-8 bundle, 
+     *   so it's only smaller for data that's mostly ASCII (like uncompressed formats), and much larger for anything that's already compressed.
+     * 
+     * Run `pnpm benchmark` to compare them. Lazy files are always base64 (their data URL is their `url`), and text and JSON are always embedded as they are.
+     */
+    encoding: InlineEncoding;
+
+    /**
+     * How many more times an asset is fetched after the first attempt fails (because the network failed, the request timed out, or the server responded with 408, 429, or 5xx).
+     * 
+     * Only used when the asset's fetched (`location: "asset"` with `timing: "async"` or `"lazy"`). Defaults to `0`.
+     */
+    retries: number;
+
+    /** How long to wait before the first retry, in milliseconds (it doubles after every retry). Defaults to `1000`. */
+    retryDelay: number;
+
+    /** How long each attempt to fetch an asset can take to respond, in milliseconds, or `null` to wait as long as it takes (the default). */
+    timeout: number | null;
+
+    /**
+     * What an asset that couldn't be fetched (after all its retries) resolves to, instead of rejecting with a `DataFileLoadError`:
+     * 
+     * * `"inline"`: An inline copy of the same data, embedded in the bundle just in case (so only use this for small files).
+     * * `{ value }`: The given value (anything JSON can represent), whatever the file's `mode`.
+     */
+    fallback: DataFileFallback | null;
+
+    /**
+     * Normally, files are read as soon as they're imported, and embedded (or emitted) right then.
+     * 
+     * When `true`, the file isn't read until `buildEnd` instead (after everything in `api.promisesToWaitFor`), for files that other plugins create late in the build.
+     * Its data (or URL) is filled into each chunk during `renderChunk`. Defaults to `true` for data registered with `api.registerData` as a `Promise`.
+     * 
+     * Can't be combined with `transform`, `imageMetadata`, or `namedExports`, which all need the file's contents when it's imported.
+     */
+    deferred: boolean;
+
+    // True if the location was chosen by the user, as opposed to defaulting to "inline" (or being chosen by inlineLimit)
+    locationIsExplicit: boolean;
+
+    // How many bytes the data took up in each chunk it was inlined into (only known once it's been embedded)
+    inlinedLength: number | null;
+}
+
+
+/** What a file's `transform` is told about the file it's transforming. */
+export interface DataFileTransformInfo {
+    /** The full path of the file */
+    path: string;
+    location: FetchLocation;
+    mode: FetchTypeMode;
+    timing: FetchMethod;
+    mime: string;
+}
+
+/** The new data, optionally with a new `mime` and/or `mode`. */
+export type DataFileTransformResult = DataSource | { data: DataSource, mime?: string, mode?: FetchTypeMode };
+
+export type DataFileTransform = (data: Buffer, info: DataFileTransformInfo) => DataFileTransformResult | Promise<DataFileTransformResult>;
+
+
+/** Anything that can be used as a file's data (a `string` is encoded as UTF-8). */
+export type DataSource = Buffer | Uint8Array | string;
+
+/**
+ * What other plugins can use to work with this one (by finding it in `options.plugins` and using its `api`).
+ */
+export interface DataPluginApi {
+    /** This plugin won't read any files until all of these resolve (see "Synchronization" in the README). */
+    promisesToWaitFor: Set<Promise<void>>;
+    /** The reference id of each emitted asset, keyed by the file name it asked for. */
+    filePathsToEmitIds: Map<string, string>;
+    /**
+     * Makes `data` importable as `datafile:virtual:<name>`, with the same `location`/`mode`/`timing` handling as a real file.
+     * 
+     * Must be called before the import is resolved (e.g. in `buildStart`), but `data` can be a `Promise` that resolves later (e.g. during your `buildEnd`).
+     * Registering the same name again (e.g. on every rebuild in watch mode) replaces its data.
+     * 
+     * `options` takes priority over `fileTypes` and `fileOptions`, but not over the import's own query params or import attributes.
+     */
+    registerData(name: string, data: DataSource | Promise<DataSource>, options?: PerFileOptions): void;
+}
+
+
+/**
+ * What you get when importing a file with `timing: "lazy"`: nothing's fetched (or decoded) until you ask for it.
+ * 
+ * Every importer shares the same handle, so the file is only ever loaded once.
+ */
+export interface LazyDataHandle<T> {
+    /** The URL of the file (a `data:` URL when it's inline) */
+    readonly url: string;
+    /** The file's data, once it's loaded (`undefined` until then) */
+    readonly value: T | undefined;
+    /** 
+     * Loads the file, or returns the load that's already in progress.
+     * 
+     * If a `signal` is given and aborted, the returned promise rejects; the download itself is only cancelled when everyone waiting on it has aborted.
+     */
+    load(signal?: AbortSignal): Promise<T>;
+    /** Starts loading the file in the background (errors are ignored until someone calls `load`). */
+    preload(): void;
+}
+
+
+/**
+ * What an asset's import rejects with when it couldn't be fetched (after all its `retries`, and only if it has no `fallback`).
+ * 
+ * The class itself lives in the runtime helpers, so check its `name` instead of using `instanceof`.
+ */
+export interface DataFileLoadError extends Error {
+    name: "DataFileLoadError";
+    /** The `datafile:` import that couldn't be loaded */
+    readonly id: string;
+    /** The last HTTP status that was received, or `null` if there wasn't one (the network failed, the request timed out, etc.) */
+    readonly status: number | null;
+}
+
+
+/** The parts of Vite's resolved config that this plugin uses (just the shape, so that it doesn't depend on Vite). */
+export interface ViteResolvedConfigLike {
+    root: string;
+    base: string;
+}
+
+/** The parts of a module in Vite's module graph that this plugin uses. */
+export interface ViteModuleNodeLike {
+    id: string | null;
+}
+
+/** The parts of Vite's dev server that this plugin uses. */
+export interface ViteDevServerLike {
+    middlewares: { use(handler: (req: IncomingMessage, res: ServerResponse, next: () => void) => void): unknown };
+    moduleGraph: {
+        getModuleById(id: string): ViteModuleNodeLike | undefined;
+        invalidateModule(module: ViteModuleNodeLike): void;
+    };
+    /** Invalidates a module and sends an HMR update for it (only invalidating it doesn't tell the browser anything). Vite 3.2 and later. */
+    reloadModule?(module: ViteModuleNodeLike): Promise<void>;
+}
+
+/** The extra hooks that Vite calls (and Rollup ignores), which make `datafile:` imports work in Vite's dev server. */
+export interface DataPluginViteHooks {
+    configResolved(config: ViteResolvedConfigLike): void;
+    configureServer(server: ViteDevServerLike): void;
+    handleHotUpdate(context: { file: string, modules: ViteModuleNodeLike[], server: ViteDevServerLike }): ViteModuleNodeLike[] | void;
+}
+
+
+interface DataPluginGlobInfo {
+    /** The original import path (e.g. the string in `import icons from "datafile:./icons/*.svg"`) */
+    import: string;
+    /** An internal number used to track imports (shared with `DataPluginInfo`) */
+    uniqueId: number;
+    /** The full path of the folder that the glob is relative to (e.g. `./icons` in `./icons/*.svg`, but as a full path) */
+    baseDirectory: string;
+    /** The rest of the glob, relative to `baseDirectory` (which matches every file when a plain folder was imported with `?glob`) */
+    pattern: string;
+    /** When true, each value is a function that `import()`s its file, instead of the file itself. */
+    lazy: boolean;
+    /** The search params forwarded to each matched file's own import (which is how they all follow the usual rules) */
+    search: string;
+    /** The import used for each matched file, keyed by its path relative to `baseDirectory`. Filled in during `load`. */
+    specifiersByKey: Map<string, string>;
 }
 
 
 /**
  * The options that are available on a per-file (or per-extension) basis.
  */
-export interface PerFileOptions extends Partial<Pick<DataPluginInfo, "location" | "mode" | "timing" | "mime">> { }
+export interface PerFileOptions extends Partial<Pick<DataPluginInfo, "location" | "mode" | "timing" | "mime" | "namedExports" | "schema" | "imageMetadata" | "inlineLimit" | "integrity" | "transform" | "compress" | "encoding" | "retries" | "retryDelay" | "timeout" | "fallback" | "deferred">> { }
+
+export interface DataRule extends PerFileOptions {
+    /** Which files this rule applies to (matched against their full path) */
+    test: FilterPattern;
+}
+
+export type { JsonSchema, JsonSchemaType } from "./json-schema";
 
 export interface DataPluginOptions {
 
@@ -121,6 +402,20 @@ export interface DataPluginOptions {
      */
     fileOptions?(fullPath: string): PerFileOptions;
 
+    /**
+     * Per-file options for every file whose full path matches `test` (a glob, regex, or array of them, like `include`).
+     * 
+     * When more than one rule matches a file, the first rule to set a given option wins.
+     * 
+     * Rules take priority over `fileTypes`, but `fileOptions`, `api.registerData`'s options, import attributes, and query params all take priority over them.
+     */
+    rules?: DataRule[];
+
+    /**
+     * When `true`, logs where each file's `location`, `mode`, `timing`, and `mime` came from (which rule, query param, etc.).
+     */
+    debug?: boolean;
+
     /**
      * Choose how files are handled on a per-extension basis.
      * 
@@ -136,7 +431,12 @@ export interface DataPluginOptions {
      * Given the full path of the imported asset, this must return a non-absolute non-relative path, like "assets/banner.png"
      * that will be relative to the output directory.
      * 
-     * Default is the path relative to the importer, which may become weird if ".." paths are used and dumps everything in the output's root folder.
+     * The returned path can contain the placeholders `[name]`, `[ext]`, `[hash]` and `[pathHash]` (see `interpolateAssetPath`),
+     * and it's only called once the file's contents are known, so `hashContent` is always available.
+     * 
+     * Files with identical contents are only emitted once, under whichever name was asked for first.
+     * 
+     * Default is `"assets/[name]-[hash:8][ext]"`.
      */
     transformFilePath?(info: TransformFilePathInfo): string;
 
@@ -150,8 +450,119 @@ export interface DataPluginOptions {
      * @default `"decode-asset"`
      */
     helperFileName?: string | null;
+
+    /**
+     * If provided, a `.d.ts` file is written to this path (relative to the project root) during every build,
+     * with an ambient `declare module` for each `datafile:` import that was found, typed according to its `location`, `timing`, `mode`, and `useTopLevelAwait`.
+     * 
+     * `.json` files imported with `mode: "json"` are given a type derived from their actual contents.
+     * 
+     * The file is only written when its contents change, so it's safe to include in your `tsconfig.json`.
+     */
+    typeDeclarations?: string | null;
+
+    /**
+     * Controls how the URL of an emitted asset is written into the bundle (both the URL you get with `timing: "sync"`, and the URL that's `fetch`ed otherwise).
+     * 
+     * * `"relative"`: The asset's path relative to the output directory, which the browser resolves against the *page's* URL. Only works when the page is served from the same folder as the bundle.
+     * * `"import-meta"`: The asset's path relative to the chunk that imports it, resolved against that chunk's own URL at runtime (`new URL("../assets/file.png", import.meta.url)`, or the equivalent for non-ES formats). Works no matter where the page or the chunk is served from.
+     * * `{ publicPath: "https://cdn.example.com/" }`: The asset's path, prefixed with a fixed base URL (e.g. a CDN or a sub-path).
+     * * `{ runtimePublicPath: "window.ASSET_BASE" }`: The asset's path, prefixed with whatever the given JS expression evaluates to at runtime.
+     * 
+     * @default `"relative"`
+     */
+    assetUrl?: AssetUrlOption;
+
+    /**
+     * The environment the bundle runs in, which changes how files are loaded:
+     * 
+     * * `"browser"`: Assets are loaded with `fetch`.
+     * * `"worker"`: Same as `"browser"`, but without relying on `document`.
+     * * `"worklet"`: Worklets have no `fetch`, `Blob`, or `Response`, so only inline files with the `"text"`, `"json"`, or `"array-buffer"` modes are allowed (anything else is a build error). Base64 is decoded without `atob`.
+     * * `"node"`: Assets are read from disk with `fs`, relative to the chunk that imports them (so `assetUrl` defaults to `"import-meta"`).
+     * 
+     * @default `"browser"`
+     */
+    target?: RuntimeTarget;
+
+    /**
+     * Files larger than this many bytes are emitted as assets instead of being inlined, unless their `location` was chosen explicitly
+     * (by extension, path, import attribute, or query param).
+     * 
+     * Can also be set per extension or per file, which takes priority over this.
+     */
+    inlineLimit?: number;
+
+    /**
+     * If a file that was explicitly chosen to be inlined is larger than this many bytes, a warning is shown.
+     */
+    inlineBudget?: number;
+
+    /**
+     * The default for each file's `integrity`: when set, fetched assets are checked against a hash computed at build time, and the import rejects if they don't match.
+     * 
+     * Can also be set per extension or per file, which takes priority over this.
+     */
+    integrity?: boolean | IntegrityAlgorithm;
+
+    /**
+     * When set, each emitted asset that's worth compressing also gets `.gz` and/or `.br` versions emitted next to it,
+     * for servers that can serve precompressed files (like nginx's `gzip_static`).
+     * 
+     * `true` uses the defaults in `PrecompressOptions`.
+     */
+    precompress?: boolean | PrecompressOptions;
+
+    /**
+     * If provided, a JSON file is emitted with this name (or `"datafile-manifest.json"` if `true`) listing every file this plugin handled:
+     * where it came from, how it was included, how large it was before and after encoding, which chunks include it, what its asset is named, and its SHA-384 integrity hash.
+     * 
+     * See `ManifestEntry` for the exact format.
+     */
+    manifest?: boolean | string;
+}
+
+export interface PrecompressOptions {
+    /** @default `["gzip", "brotli"]` */
+    formats?: PrecompressFormat[];
+    /** Assets smaller than this many bytes aren't precompressed. @default 1024 */
+    threshold?: number;
+    /** 
+     * Which MIME types are worth compressing. 
+     * 
+     * By default, text, JSON, XML, SVG, JavaScript, and WASM are (anything that's already compressed, like most images, fonts, and video, isn't).
+     */
+    mimes?: (mime: string) => boolean;
 }
 
+/** The format of `manifest`, which is an object with a `files` array of these. */
+export interface ManifestEntry {
+    /** Every import id that resolved to this file (e.g. `"datafile:./banner.png?location=asset"`) */
+    imports: string[];
+    /** The path of the source file, relative to the project root (always separated with `/`) */
+    source: string;
+    location: FetchLocation;
+    mode: FetchTypeMode;
+    timing: FetchMethod;
+    mime: string;
+    /** The size of the file itself, in bytes */
+    size: number;
+    /** How many bytes one copy of the file takes up in the output: the size of the asset, or the size of the literal it's inlined as (which every chunk in `chunks` has a copy of). `null` if it's inlined and wasn't rendered. */
+    encodedSize: number | null;
+    /** The chunks that include this file (inline data is duplicated in each of them) */
+    chunks: string[];
+    /** The name of the emitted asset (or `null` if it was inlined) */
+    fileName: string | null;
+    /** A subresource integrity string, like `"sha384-..."` */
+    integrity: string;
+    /** The names of the asset's `.gz`/`.br` versions, if `precompress` is on (and they were worth emitting) */
+    precompressed: string[];
+}
+
+export type RuntimeTarget = "browser" | "worker" | "worklet" | "node";
+
+export type AssetUrlOption = "relative" | "import-meta" | { publicPath: string } | { runtimePublicPath: string };
+
 export interface TransformFilePathInfo {
     /** The full path from the root of your local disk */
     //pathFull: string;
@@ -161,25 +572,48 @@ export interface TransformFilePathInfo {
     fileName: string;
     /** The file's extension (including the period at the star) */
     fileExtWithDot: string;
-    /** A string of the hash of `pathRelative` (not the file's contents, as it may not be available.) */
+    /** A string of the hash of `pathRelative`. */
     hashPathRelative: string;
+    /** A string of the hash of the file's contents (`[hash]` in a path pattern). */
+    hashContent: string;
 }
 
-export function getDefaultAssetPathInfo(fullFilePath: string, projectRootDir: string): TransformFilePathInfo {
+export function getDefaultAssetPathInfo(fullFilePath: string, projectRootDir: string, contents: Buffer): TransformFilePathInfo {
 
     const p = fullFilePath;
     const bn = basename(p);
     const ext = extname(p);
     const filename = bn.substring(0, bn.length - ext.length);
-    const hasher = createHash("sha256");
     const pathRelativeToProject = relative(projectRootDir, p);
-    hasher.update(pathRelativeToProject);
-    const hash = hasher.digest("hex");
-    return { fileExtWithDot: ext, fileName: filename, hashPathRelative: hash, pathRelative: pathRelativeToProject };
+    const hash = createHash("sha256").update(pathRelativeToProject).digest("hex");
+    const hashContent = createHash("sha256").update(contents).digest("hex");
+    return { fileExtWithDot: ext, fileName: filename, hashPathRelative: hash, hashContent, pathRelative: pathRelativeToProject };
+}
+
+export function getDefaultAssetPath(info: TransformFilePathInfo) {
+    return interpolateAssetPath("assets/[name]-[hash:8][ext]", info);
 }
 
-export function getDefaultAssetPath({ fileExtWithDot, fileName }: TransformFilePathInfo) {
-    return `assets/${fileName}${fileExtWithDot}`;
+/**
+ * Replaces the placeholders in a path returned by `transformFilePath`:
+ * 
+ * * `[name]`: The name of the file, without its extension
+ * * `[ext]`: The file's extension, including the period
+ * * `[hash]` or `[hash:8]`: The hash of the file's contents (optionally truncated to the given length)
+ * * `[pathHash]` or `[pathHash:8]`: The hash of the file's path relative to the project root
+ * 
+ * Paths without any placeholders are returned as-is.
+ */
+export function interpolateAssetPath(pattern: string, { fileName, fileExtWithDot, hashContent, hashPathRelative }: TransformFilePathInfo) {
+    return pattern.replace(/\[(name|ext|hash|pathHash)(?::([0-9]+))?\]/g, (_m, placeholder: string, length: string | undefined) => {
+        switch (placeholder) {
+            case "name": return fileName;
+            case "ext": return fileExtWithDot;
+            case "hash": return hashContent.substring(0, length ? +length : undefined);
+            case "pathHash": return hashPathRelative.substring(0, length ? +length : undefined);
+            default: return _m;
+        }
+    });
 }
 
 
@@ -188,23 +622,415 @@ function mergeOptions(target: PerFileOptions | null | undefined, modifier: PerFi
         location: target?.location || modifier?.location,
         mode: target?.mode || modifier?.mode,
         timing: target?.timing || modifier?.timing,
-        mime: target?.mime || modifier?.mime
+        mime: target?.mime || modifier?.mime,
+        namedExports: target?.namedExports ?? modifier?.namedExports,
+        schema: target?.schema ?? modifier?.schema,
+        imageMetadata: target?.imageMetadata ?? modifier?.imageMetadata,
+        inlineLimit: target?.inlineLimit ?? modifier?.inlineLimit,
+        integrity: target?.integrity ?? modifier?.integrity,
+        transform: target?.transform ?? modifier?.transform,
+        compress: target?.compress ?? modifier?.compress,
+        encoding: target?.encoding ?? modifier?.encoding,
+        retries: target?.retries ?? modifier?.retries,
+        retryDelay: target?.retryDelay ?? modifier?.retryDelay,
+        timeout: target?.timeout ?? modifier?.timeout,
+        fallback: target?.fallback ?? modifier?.fallback,
+        deferred: target?.deferred ?? modifier?.deferred
+    }
+}
+
+/**
+ * Returns a few lines of `source` around the given (1-based) line, with the given (0-based) column pointed out, like Rollup does for its own errors.
+ */
+function getCodeFrame(source: string, line: number, column: number) {
+    const lines = source.split(/\r?\n/);
+    const first = Math.max(line - 3, 0);
+    const last = Math.min(line + 2, lines.length);
+    const gutterWidth = String(last).length;
+    return lines.slice(first, last).map((text, i) => {
+        const lineNumber = first + i + 1;
+        const frame = `${String(lineNumber).padStart(gutterWidth)}: ${text.replace(/\t/g, "  ")}`;
+        if (lineNumber != line)
+            return frame;
+        const indent = text.substring(0, column).replace(/\t/g, "  ").length;
+        return `${frame}\n${" ".repeat(gutterWidth + 2 + indent)}^`;
+    }).join("\n");
+}
+
+/**
+ * Finds where `id` is imported (statically, dynamically, or re-exported) in a module's AST, as the offset of its string literal.
+ */
+function findImportPosition(node: unknown, id: string): number | null {
+    if (!node || typeof node != "object")
+        return null;
+    const { type, source } = node as { type?: string, source?: { type: string, value: unknown, start: number } };
+    if ((type == "ImportDeclaration" || type == "ImportExpression" || type == "ExportNamedDeclaration" || type == "ExportAllDeclaration") && source?.type == "Literal" && source.value == id)
+        return source.start;
+    for (const child of Object.values(node)) {
+        const position = findImportPosition(child, id);
+        if (position != null)
+            return position;
+    }
+    return null;
+}
+
+/** e.g. `"sync", "async", or "lazy"` */
+function formatChoices(choices: readonly string[]) {
+    const quoted = choices.map(choice => JSON.stringify(choice));
+    return `${quoted.slice(0, -1).join(", ")}, or ${quoted[quoted.length - 1]}`;
+}
+
+/**
+ * Returns what an option must be if `value` isn't valid for it, or `null` if it is (or isn't set at all).
+ * Covers every per-file option (and `glob`, which only an import can set), as well as the plugin's own limits.
+ */
+function checkOption(key: keyof PerFileOptions | "glob" | "inlineBudget" | "precompress.threshold", value: unknown): string | null {
+    if (value == null)
+        return null;
+    const isNonNegative = (integer: boolean) => (typeof value == "number" && value >= 0 && (!integer || Number.isInteger(value)));
+    switch (key) {
+        case "location": return FETCH_LOCATIONS.includes(value as FetchLocation) ? null : formatChoices(FETCH_LOCATIONS);
+        case "mode": return FETCH_TYPE_MODES.includes(value as FetchTypeMode) ? null : formatChoices(FETCH_TYPE_MODES);
+        case "timing": return FETCH_METHODS.includes(value as FetchMethod) ? null : formatChoices(FETCH_METHODS);
+        case "glob": return (value == "" || value == "lazy") ? null : "\"lazy\" (or empty, for every file at once)";
+        case "mime": return (typeof value == "string" && /^[\w!#$&^.+-]+\/[\w!#$&^.+-]+(\s*;.*)?$/.test(value)) ? null : "a MIME type (like \"image/png\")";
+        case "encoding": return ["base64", "base85", "latin1"].includes(value as string) ? null : formatChoices(["base64", "base85", "latin1"]);
+        case "compress": return ["gzip", "deflate"].includes(value as string) ? null : formatChoices(["gzip", "deflate"]);
+        case "integrity": return (typeof value == "boolean" || ["sha256", "sha384", "sha512"].includes(value as string)) ? null : `a boolean, or ${formatChoices(["sha256", "sha384", "sha512"])}`;
+        case "fallback": return (value == "inline" || (typeof value == "object" && "value" in value)) ? null : "\"inline\" or { value }";
+        case "namedExports":
+        case "imageMetadata":
+        case "deferred": return typeof value == "boolean" ? null : "a boolean";
+        case "transform": return typeof value == "function" ? null : "a function";
+        case "schema": return (typeof value == "object" && !Array.isArray(value)) ? null : "a JSON schema object";
+        case "retries": return isNonNegative(true) ? null : "a whole number that's 0 or more";
+        case "retryDelay":
+        case "timeout": return isNonNegative(false) ? null : "a number of milliseconds that's 0 or more";
+        case "inlineLimit":
+        case "inlineBudget":
+        case "precompress.threshold": return isNonNegative(false) ? null : "a number of bytes that's 0 or more";
+    }
+}
+
+/**
+ * Parses a file's JSON, failing the build with the location of the problem if it's malformed or doesn't match its schema.
+ */
+function parseJsonFile(context: PluginContext, info: DataPluginInfo): unknown {
+    const text = info.rawData!.toString("utf-8");
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    }
+    catch (ex) {
+        const message = (ex as Error).message;
+        // V8 only sometimes reports where it went wrong, and only as a character offset, which isn't super helpful for humans.
+        const position = findJsonErrorPosition(text);
+        if (position == null)
+            return context.error({ message: `${info.inputFilePath} is not valid JSON: ${message}`, id: info.inputFilePath });
+        const before = text.substring(0, position).split(/\r?\n/);
+        const line = before.length;
+        const column = before[before.length - 1].length;
+        return context.error({
+            message: `${info.inputFilePath} is not valid JSON (line ${line}, column ${column + 1}): ${message}`,
+            id: info.inputFilePath,
+            loc: { file: info.inputFilePath, line, column },
+            frame: getCodeFrame(text, line, column)
+        });
+    }
+
+    if (info.schema) {
+        const errors = validateJsonSchema(data, info.schema);
+        if (errors.length)
+            return context.error({ message: `${info.inputFilePath} does not match its schema:\n${errors.join("\n")}`, id: info.inputFilePath });
+    }
+
+    return data;
+}
+
+/**
+ * Returns the TypeScript type of an already-parsed JSON value (with primitives widened, like `resolveJsonModule` does).
+ */
+function jsonToType(value: unknown, indent = ""): string {
+    if (value === null)
+        return "null";
+    if (Array.isArray(value)) {
+        const elementTypes = [...new Set(value.map(v => jsonToType(v, indent)))];
+        if (elementTypes.length == 0)
+            return "unknown[]";
+        if (elementTypes.length == 1)
+            return `${elementTypes[0]}[]`;
+        return `(${elementTypes.join(" | ")})[]`;
+    }
+    if (typeof value == "object") {
+        const entries = Object.entries(value as object);
+        if (entries.length == 0)
+            return "{}";
+        return `{\n${entries.map(([k, v]) => `${indent}    ${JSON.stringify(k)}: ${jsonToType(v, `${indent}    `)};\n`).join("")}${indent}}`;
+    }
+    return typeof value;
+}
+
+/**
+ * Returns the TypeScript type of what `import data from "datafile:..."` gives you for this file.
+ */
+function getImportType(info: DataPluginInfo, useTopLevelAwait: boolean | undefined): string {
+    if (info.location == "asset" && info.timing == "sync")
+        return "string";
+
+    let valueType: string;
+    switch (info.mode) {
+        case "array-buffer": valueType = "ArrayBuffer"; break;
+        case "blob": valueType = "Blob"; break;
+        case "text": valueType = "string"; break;
+        case "response": valueType = "Response"; break;
+        case "object-url": valueType = "string"; break;
+        case "stream": valueType = "ReadableStream<Uint8Array>"; break;
+        case "image-bitmap": valueType = "ImageBitmap"; break;
+        case "font-face": valueType = "FontFace"; break;
+        case "wasm-module": valueType = "WebAssembly.Module"; break;
+        case "json": {
+            valueType = "any";
+            try {
+                if (info.rawData)
+                    valueType = jsonToType(JSON.parse(info.rawData.toString("utf-8")), "    ");
+            }
+            catch {
+                // Not valid JSON, so nothing better than any
+            }
+            break;
+        }
+    }
+
+    if (info.timing == "lazy") {
+        valueType = valueType.replace(/\n/g, "\n    ");
+        return `{\n        readonly url: string;\n        readonly value: ${valueType} | undefined;\n        load(signal?: AbortSignal): Promise<${valueType}>;\n        preload(): void;\n    }`;
+    }
+
+    // Inline data is decoded right away; only assets (and inline data that can only be decoded asynchronously) are Promises.
+    const isPromise = (info.location == "asset" || info.mode == "response" || info.mode == "image-bitmap" || info.mode == "font-face" || info.mode == "wasm-module" || (info.compress != null && !(info.mode == "json" && info.namedExports)));
+    return (isPromise && !useTopLevelAwait) ? `Promise<${valueType}>` : valueType;
+}
+
+/**
+ * Returns every file in a directory (recursively), as paths relative to that directory (always separated with `/`).
+ */
+async function listFiles(directory: string, prefix = ""): Promise<string[]> {
+    const ret: string[] = [];
+    for (const entry of await readdir(join(directory, prefix), { withFileTypes: true })) {
+        const path = `${prefix}${entry.name}`;
+        if (entry.isDirectory())
+            ret.push(...await listFiles(directory, `${path}/`));
+        else
+            ret.push(path);
+    }
+    return ret;
+}
+
+/**
+ * Encodes a file as a JS string literal containing a base64 `data:` URL.
+ */
+function toDataUrlLiteral(rawData: Buffer, mime: string) {
+    // 1024 characters is 1kb (and a multiple of 4)
+    return `"data:${mime};base64,\\\n${splitLiteral(rawData.toString("base64"), 1024)}"`;
+}
+
+/** Splits a (long) string literal's contents into lines, with line continuations so they're still one string. */
+function splitLiteral(contents: string, splitSize: number) {
+    let afterSplit: string[] = [];
+    for (let i = 0; i < contents.length; i += splitSize)
+        afterSplit.push(contents.substring(i, i + splitSize));
+    return afterSplit.join("\\\n");
+}
+
+const Z85_ALPHABET = "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ.-:+=^!/*?&<>()[]{}@%$#";
+
+/**
+ * Encodes a file as a call to the `decodeBase85` helper, with its data as Z85 (padded with zeroes to a multiple of 4 bytes).
+ */
+function toBase85Literal(rawData: Buffer, mime: string) {
+    const padded = Buffer.alloc(Math.ceil(rawData.length / 4) * 4);
+    rawData.copy(padded);
+    let encoded = "";
+    for (let i = 0; i < padded.length; i += 4) {
+        let value = padded.readUInt32BE(i);
+        let group = "";
+        for (let j = 0; j < 5; ++j) {
+            group = Z85_ALPHABET[value % 85] + group;
+            value = Math.floor(value / 85);
+        }
+        encoded += group;
+    }
+    // 1025 characters is about 1kb (and a multiple of 5)
+    return `decodeBase85(${JSON.stringify(mime)}, "\\\n${splitLiteral(encoded, 1025)}", ${rawData.length})`;
+}
+
+/**
+ * Encodes a file as a call to the `decodeLatin1` helper, with its data as a string of one character per byte.
+ */
+function toLatin1Literal(rawData: Buffer, mime: string) {
+    // Only what would end the string (or a line) is escaped, and everything else is left as-is.
+    const encoded = rawData.toString("latin1").replace(/[\x00-\x1F"\\]/g, c => `\\x${c.charCodeAt(0).toString(16).padStart(2, "0")}`);
+    return `decodeLatin1(${JSON.stringify(mime)}, "${encoded}")`;
+}
+
+/**
+ * Encodes binary data as a JS expression, using the file's `encoding`.
+ */
+function toBinaryLiteral(rawData: Buffer, info: DataPluginInfo) {
+    switch (info.encoding) {
+        case "base85": return toBase85Literal(rawData, info.mime);
+        case "latin1": return toLatin1Literal(rawData, info.mime);
+        default: return toDataUrlLiteral(rawData, info.mime);
+    }
+}
+
+/**
+ * Returns the JS expression for the URL of an emitted asset, as seen from the chunk that references it.
+ */
+function getAssetUrlExpression(assetUrl: AssetUrlOption, assetFileName: string, chunkFileName: string, format: InternalModuleFormat, target: RuntimeTarget): string {
+    if (assetUrl == "import-meta") {
+        const relativePath = normalizePath(relative(dirname(chunkFileName), assetFileName));
+        switch (format) {
+            case "es": return `new URL(${JSON.stringify(relativePath)}, import.meta.url).href`;
+            case "system": return `new URL(${JSON.stringify(relativePath)}, module.meta.url).href`;
+            // The same thing Rollup does for import.meta.url in CommonJS (with the same trick to stop other bundlers from trying to bundle "url")
+            case "cjs": return `new URL(${JSON.stringify(relativePath)}, require('u' + 'rl').pathToFileURL(__filename).href).href`;
+            default: return `new URL(${JSON.stringify(relativePath)}, ${target == "browser" ? "document.currentScript && document.currentScript.src || document.baseURI" : "self.location.href"}).href`;
+        }
+    }
+    if (typeof assetUrl == "object" && "publicPath" in assetUrl)
+        return JSON.stringify(`${assetUrl.publicPath.replace(/\/?$/, "/")}${assetFileName}`);
+    if (typeof assetUrl == "object" && "runtimePublicPath" in assetUrl)
+        return `(${assetUrl.runtimePublicPath}) + ${JSON.stringify(assetFileName)}`;
+    return JSON.stringify(assetFileName);
+}
+
+/**
+ * Returns the JS expression for the URL of an asset that's served by Vite's dev server.
+ * 
+ * Relative URLs are the same as they'd be in the build, but everything else points to the dev server (which is the only place the asset is, for now).
+ */
+function getDevAssetUrlExpression(assetUrl: AssetUrlOption, devBase: string, assetFileName: string): string {
+    if (assetUrl == "relative")
+        return JSON.stringify(assetFileName);
+    if (assetUrl == "import-meta")
+        return `new URL(${JSON.stringify(`${devBase}${assetFileName}`)}, import.meta.url).href`;
+    return JSON.stringify(`${devBase}${assetFileName}`);
+}
+
+function toBuffer(data: DataSource) {
+    return (typeof data == "string" ? Buffer.from(data, "utf-8") : Buffer.isBuffer(data) ? data : Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+}
+
+/**
+ * Whether a file of this MIME type is likely to get any smaller when it's compressed (as opposed to images, fonts, etc. that already are).
+ */
+function isCompressibleMime(mime: string) {
+    return /^text\/|[/+](json|xml)$|^image\/(svg\+xml|bmp|x-icon|vnd\.microsoft\.icon)$|^application\/(javascript|wasm)$/.test(mime);
+}
+
+/**
+ * Returns a subresource integrity string (e.g. `"sha384-..."`) for the given data.
+ */
+function getIntegrity(data: Buffer, algorithm: IntegrityAlgorithm) {
+    return `${algorithm}-${createHash(algorithm).update(data).digest("base64")}`;
+}
+
+/**
+ * In JSON, `"__proto__"` is a key like any other, but in an object literal it sets the object's prototype instead, so those keys are made computed (which are just keys).
+ * Only meant for what `JSON.stringify` and `dataToEsm` output, where every key is either quoted or starts its own line, so nothing in a string can match.
+ */
+function escapeProtoKeys(code: string) {
+    return code.replace(/"__proto__":/g, `["__proto__"]:`).replace(/^(\s*)__proto__:/gm, `$1["__proto__"]:`);
+}
+
+type EmbeddedValueKind = "BASE64" | "URL" | "INTEGRITY" | "COMPRESSION" | "FALLBACK";
+
+/**
+ * Returns the JS expression for one of the values that's embedded in a file's module (once the file's been read):
+ * its data, its URL (from `getUrl`), its integrity hash, how it was compressed, or the inline copy of an asset that's its fallback.
+ */
+function getEmbeddedValue(kind: EmbeddedValueKind, info: DataPluginInfo, getUrl: () => string): string {
+    switch (kind) {
+        case "URL":
+            return getUrl();
+        case "INTEGRITY":
+            return JSON.stringify(getIntegrity(info.rawData!, info.integrity === true ? "sha384" : info.integrity as IntegrityAlgorithm));
+        case "COMPRESSION":
+            return JSON.stringify(info.compressedData ? info.compress : null);
+        case "BASE64": {
+            const literal = getInlineLiteral(info);
+            info.inlinedLength = Buffer.byteLength(literal);
+            return literal;
+        }
+        case "FALLBACK":
+            return getInlineLiteral(info, false);
+    }
+}
+
+/**
+ * Returns the JS literal that an inline file's data is embedded as.
+ */
+function getInlineLiteral(info: DataPluginInfo, asUrl = (info.timing == "lazy")): string {
+    const rawData = info.rawData!;
+
+    // Compressed data is always binary, whatever the mode; it's decoded once it's been decompressed.
+    if (info.compressedData)
+        return toBinaryLiteral(info.compressedData, info);
+
+    // Lazy handles always get a data URL, which is both their `url` and what they `fetch` when loaded.
+    if (asUrl)
+        return toDataUrlLiteral(rawData, info.mime);
+
+    switch (info.mode) {
+        case "text":
+            // return the data, assume it's encoded in UTF-8 (TODO on that)
+            return JSON.stringify(info.rawData?.toString("utf-8"));
+        case "json":
+            // Already validated once it was read, so this just embeds it as an object literal instead of parsing a string on the client at runtime
+            // (lots of unnecessary quotes in the result but a minifier'll clean those right out)
+            return info.rawData ? escapeProtoKeys(JSON.stringify(JSON.parse(info.rawData.toString("utf-8")))) : "undefined";
+
+        case "response":
+        case "array-buffer":
+        case "blob":
+        case "object-url":
+        case "stream":
+        case "image-bitmap":
+        case "font-face":
+        case "wasm-module":
+            // encode the data as base64 (or whatever encoding was chosen) in all these cases.
+            // the virtual module decodes it into a Blob, ArrayBuffer, etc. as appropriate
+            return toBinaryLiteral(rawData, info);
+        default:
+            // why would you do this?
+            throw new Error(`Unknown mode for file "${info.inputFilePath}": ${info.mode}`);
     }
 }
 
 // Doesn't work on non-BMP characters, if that ever comes up
 function capitalize(str: string) { return `${(str[0]).toUpperCase()}${str.substring(1)}` }
 const PLUGIN_NAME = "rollup-plugin-datafile"
-export default function dataPlugin({ fileOptions, transformFilePath, fileTypes, useTopLevelAwait, exclude, include, helperFileName }: Partial<DataPluginOptions> = {}): InputPluginOption {
+export default function dataPlugin({ fileOptions, transformFilePath, fileTypes, useTopLevelAwait, exclude, include, helperFileName, typeDeclarations, assetUrl, target = "browser", inlineLimit, inlineBudget, integrity, precompress, manifest, rules, debug }: Partial<DataPluginOptions> = {}): Plugin & DataPluginViteHooks & { api: DataPluginApi } {
 
     /** This is the virtual helper file whose functions decode base64 and Responses into Blobs and strings and such. */
     const DATA_HELPER_DECODE = `\0${helperFileName || "decode-asset"}.js`;
     const inlineHelpers = (helperFileName === null);
+    // Node also needs the helpers that read assets from disk
+    const getHelperFile = () => readRuntimeHelpers().then(({ decode, node }) => target == "node" ? `${decode}\n${node}` : decode);
+    // Node's fetch can't read files, so assets are read with a helper instead.
+    const fetchFunction = (target == "node" ? "fetchFile" : "fetch");
+    const fetchImport = (target == "node" ? ", fetchFile" : "");
+    // Files on disk can only be found relative to the chunk
+    assetUrl ??= (target == "node" ? "import-meta" : "relative");
 
     let uniqueIdCounter = 0;
 
     const filter = createFilter(include, exclude);
+    const ruleFilters = (rules ?? []).map(({ test, ...options }) => ({ filter: createFilter(test), options }));
     fileTypes ||= {};
+    // Only used to tell the user's options apart from the defaults when debugging
+    const userFileTypes = { ...fileTypes };
 
     // source files
     fileTypes[".css"] = mergeOptions(fileTypes[".css"], { mime: "text/css", mode: "text" });
@@ -214,7 +1040,7 @@ export default function dataPlugin({ fileOptions, transformFilePath, fileTypes,
     fileTypes[".mjs"] = mergeOptions(fileTypes[".mjs"], { mime: "text/javascript", mode: "text" });
     fileTypes[".svg"] = mergeOptions(fileTypes[".svg"], { mime: "image/svg+xml", mode: "text" });
     fileTypes[".csv"] = mergeOptions(fileTypes[".csv"], { mime: "text/csv", mode: "text" });
-    fileTypes[".wasm"] = mergeOptions(fileTypes[".wasm"], { mime: "application/wasm", mode: "response" });
+    fileTypes[".wasm"] = mergeOptions(fileTypes[".wasm"], { mime: "application/wasm", mode: "wasm-module" });
 
     // raster images
     fileTypes[".webp"] = mergeOptions(fileTypes[".webp"], { mime: "image/webp", mode: "blob" });
@@ -231,11 +1057,12 @@ export default function dataPlugin({ fileOptions, transformFilePath, fileTypes,
     fileTypes[".ogg"] = mergeOptions(fileTypes[".ogg"], { mime: "application/ogg", mode: "blob" });
     fileTypes[".webm"] = mergeOptions(fileTypes[".webm"], { mime: "audio/webm", mode: "blob" });
 
-    // fonts
-    fileTypes[".otf"] = mergeOptions(fileTypes[".otf"], { mime: "font/otf", mode: "blob" });
-    fileTypes[".ttf"] = mergeOptions(fileTypes[".ttf"], { mime: "font/ttf", mode: "blob" });
-    fileTypes[".woff"] = mergeOptions(fileTypes[".woff"], { mime: "font/woff", mode: "blob" });
-    fileTypes[".woff2"] = mergeOptions(fileTypes[".woff2"], { mime: "font/woff2", mode: "blob" });
+    // fonts (Node has no FontFace)
+    const fontMode = (target == "node" ? "blob" : "font-face");
+    fileTypes[".otf"] = mergeOptions(fileTypes[".otf"], { mime: "font/otf", mode: fontMode });
+    fileTypes[".ttf"] = mergeOptions(fileTypes[".ttf"], { mime: "font/ttf", mode: fontMode });
+    fileTypes[".woff"] = mergeOptions(fileTypes[".woff"], { mime: "font/woff", mode: fontMode });
+    fileTypes[".woff2"] = mergeOptions(fileTypes[".woff2"], { mime: "font/woff2", mode: fontMode });
 
     // document types
     fileTypes[".txt"] = mergeOptions(fileTypes[".txt"], { mime: "text/plain", mode: "text" });
@@ -250,183 +1077,696 @@ export default function dataPlugin({ fileOptions, transformFilePath, fileTypes,
     const filePathsToEmitIds = new Map<string, string>();
     const promisesToWaitFor = new Set<Promise<void>>();
     let projectDir = process.cwd();
-    let infoByImport = new Map<string, DataPluginInfo>();
+    /** Keyed by the full path of the file and its options, so that the same info is reused across rebuilds in watch mode. */
+    let infoByKey = new Map<string, DataPluginInfo>();
     let infoByUid = new Map<number, DataPluginInfo>();
+    /** Only the files that were actually loaded this build need to be read and emitted (watch mode can leave stale ones behind). */
+    const infosThisBuild = new Set<DataPluginInfo>();
+    /** Every import string that resolved to a given file, since one file can be imported with many different strings. */
+    const infosBySpecifier = new Map<string, Set<DataPluginInfo>>();
+    /** Same as the above, but for globs. */
+    let globByKey = new Map<string, DataPluginGlobInfo>();
+    let globByUid = new Map<number, DataPluginGlobInfo>();
+    const globsThisBuild = new Set<DataPluginGlobInfo>();
+    /** The data (and options) other plugins registered with `api.registerData`, keyed by name. */
+    const registeredData = new Map<string, { data: DataSource | Promise<DataSource>, options: PerFileOptions }>();
+
+    /**
+     * Assets are emitted as they're loaded; identical files imported through different ids are only emitted once per build.
+     * This is what was emitted for each, which every file with the same contents shares (including in the manifest).
+     */
+    const emittedAssetsByContent = new Map<string, { fileReferenceId: string, precompressedFileNames: string[] }>();
+    /** The assets that this plugin emitted (and so whose URLs it resolves) */
+    const ownFileReferenceIds = new Set<string>();
+    /**
+     * Vite's dev server, when that's what's running this plugin. 
+     * It doesn't emit files or render chunks, so assets are served by this plugin instead (at the same path they'd have in the build),
+     * and nothing's deferred (there's no `buildEnd` to wait for).
+     */
+    let devServer: ViteDevServerLike | null = null;
+    /** Vite's `base`, which is where the dev server serves assets from (only if it's a path, since a full URL isn't served by the dev server anyway) */
+    let devBase = "/";
+    /** The assets that the dev server serves, keyed by their path */
+    const devAssets = new Map<string, DataPluginInfo>();
+    const { formats: precompressFormats = ["gzip", "brotli"], threshold: precompressThreshold = 1024, mimes: precompressMimes = isCompressibleMime } = (precompress === true ? {} : precompress || { formats: [] });
+
+    /** The path of a file relative to the project root, for showing to people (virtual files are just shown as-is). */
+    function getDisplayPath(inputFilePath: string) {
+        return inputFilePath.startsWith(VIRTUAL_PREFIX) ? inputFilePath : normalizePath(relative(projectDir, inputFilePath));
+    }
+
+    /**
+     * Marks the files that match as changed, and invalidates their modules in Vite's dev server (if it's running), which are returned.
+     */
+    function invalidateFiles(matches: (info: DataPluginInfo) => boolean) {
+        const invalidated: ViteModuleNodeLike[] = [];
+        for (const info of infoByUid.values()) {
+            if (!matches(info))
+                continue;
+            info.dirty = true;
+            const module = devServer?.moduleGraph.getModuleById(`${SELFISH_DATA_PREFIX}${info.uniqueId}`);
+            if (module) {
+                devServer!.moduleGraph.invalidateModule(module);
+                invalidated.push(module);
+            }
+        }
+        return invalidated;
+    }
+
+    /** Turns the path part of a `datafile:` id into a full path, resolving `~/` relative to the project root and anything else relative to the importer */
+    function resolveInputPath(pathname: string, importer: string | undefined) {
+        let importerDir = importer ? dirname(importer) : projectDir;
+        return pathname.startsWith("~/") ? join(projectDir, pathname.substring(2)) :
+            pathname.startsWith("~") ? join(projectDir, pathname.substring(1)) :
+                isAbsolute(pathname) ? pathname :
+                    join(importerDir, pathname);
+    }
+
+    /**
+     * Where `importer` imports `id` (with a code frame), for errors and warnings about the import itself.
+     * If it can't be found (e.g. the import was resolved by another plugin), it's just the importer.
+     */
+    function getImportLocation(context: PluginContext, importer: string | undefined, id: string) {
+        const module = (importer ? context.getModuleInfo(importer) : null);
+        const position = (module?.ast && module.code != null ? findImportPosition(module.ast, id) : null);
+        if (position == null)
+            return { id: importer };
+        const before = module!.code!.substring(0, position).split(/\r?\n/);
+        const line = before.length;
+        const column = before[before.length - 1].length;
+        return { id: importer, loc: { file: importer, line, column }, frame: getCodeFrame(module!.code!, line, column) };
+    }
+
+    /**
+     * Once a file's been read, this does everything that depends on its contents:
+     * validates JSON, compresses inline data (if it's worth it), and emits assets (along with their `.gz`/`.br` versions).
+     */
+    function prepareDataFile(context: PluginContext, info: DataPluginInfo) {
+        // Make sure JSON files are actually JSON before they end up in the bundle.
+        if (info.mode == "json")
+            parseJsonFile(context, info);
+
+        if (info.location == "inline") {
+            // Compress the inline files that asked for it (if it's worth it).
+            if (!info.compress || info.timing != "async" || (info.mode == "json" && info.namedExports) || info.compressedHash == info.hashContent)
+                return;
+            info.compressedHash = info.hashContent;
+            info.compressedData = null;
+            const compressed = (info.compress == "gzip" ? gzipSync : deflateSync)(info.rawData!, { level: 9 });
+            const uncompressedLength = Buffer.byteLength(getInlineLiteral(info));
+            const compressedLength = Buffer.byteLength(toBinaryLiteral(compressed, info));
+            if (compressedLength < uncompressedLength) {
+                info.compressedData = compressed;
+                context.info(`${info.inputFilePath} was compressed with ${info.compress}, from ${uncompressedLength} to ${compressedLength} bytes, saving ${uncompressedLength - compressedLength} bytes (${(100 * (1 - compressedLength / uncompressedLength)).toFixed(1)}%).`);
+            }
+            else {
+                context.info(`${info.inputFilePath} wasn't compressed, because it would've been ${compressedLength} bytes instead of ${uncompressedLength}.`);
+            }
+            return;
+        }
+
+        // Emit the asset now that we know its contents (and thus its name).
+        // (Rollup starts every build with no emitted files, so unchanged assets are emitted again from the bytes we already have)
+        if (info.assetFileName == null) {
+            // (Virtual files are named as if they were in the project root)
+            const sourcePath = info.inputFilePath.startsWith(VIRTUAL_PREFIX) ? join(projectDir, info.inputFilePath.substring(VIRTUAL_PREFIX.length)) : info.inputFilePath;
+            const pathInfo = getDefaultAssetPathInfo(sourcePath, projectDir, info.rawData!);
+            info.assetFileName = interpolateAssetPath((transformFilePath ?? getDefaultAssetPath)(pathInfo), pathInfo);
+        }
+        if (devServer) {
+            // (Anything that was served for this file's old contents is gone now)
+            for (const [path, served] of devAssets) {
+                if (served == info)
+                    devAssets.delete(path);
+            }
+            devAssets.set(`${devBase}${normalizePath(info.assetFileName)}`, info);
+            return;
+        }
+        let emitted = emittedAssetsByContent.get(info.hashContent!);
+        if (emitted == null) {
+            const fileReferenceId = context.emitFile({ type: "asset", fileName: info.assetFileName, source: info.rawData! });
+            emitted = { fileReferenceId, precompressedFileNames: [] };
+            emittedAssetsByContent.set(info.hashContent!, emitted);
+            ownFileReferenceIds.add(fileReferenceId);
+            filePathsToEmitIds.set(info.assetFileName, fileReferenceId);
+
+            // Compressing is slow, so in watch mode it's only done again when the file's changed.
+            if (info.precompressed?.hash != info.hashContent) {
+                const worthIt = precompressFormats.length > 0 && info.rawData!.length >= precompressThreshold && precompressMimes(info.mime);
+                const sidecars = !worthIt ? [] : precompressFormats.map(format => format == "gzip" ?
+                    { extension: ".gz", data: gzipSync(info.rawData!, { level: 9 }) } :
+                    { extension: ".br", data: brotliCompressSync(info.rawData!, { params: { [zlibConstants.BROTLI_PARAM_QUALITY]: 11, [zlibConstants.BROTLI_PARAM_SIZE_HINT]: info.rawData!.length } }) });
+                // A compressed version that's bigger than the original is never going to be served
+                info.precompressed = { hash: info.hashContent!, sidecars: sidecars.filter(sidecar => sidecar.data.length < info.rawData!.length) };
+            }
+            for (const { extension, data } of info.precompressed!.sidecars) {
+                context.emitFile({ type: "asset", fileName: `${info.assetFileName}${extension}`, source: data });
+                emitted.precompressedFileNames.push(normalizePath(`${info.assetFileName}${extension}`));
+            }
+        }
+        info.fileReferenceId = emitted.fileReferenceId;
+        info.outputFilePath = context.getFileName(emitted.fileReferenceId);
+    }
+
+    /** Reads a file's data (if it hasn't been read yet, or if it's changed since) */
+    async function readDataFile(info: DataPluginInfo) {
+        if (!info.dirty && info.rawData)
+            return;
+        let rawData = info.inputFilePath.startsWith(VIRTUAL_PREFIX) ?
+            toBuffer(await registeredData.get(info.inputFilePath.substring(VIRTUAL_PREFIX.length))!.data) :
+            await readFile(info.inputFilePath);
+        let hashContent = createHash("sha256").update(rawData).digest("hex");
+        info.dirty = false;
+
+        if (info.transform) {
+            const { mode, mime } = info.untransformed;
+            if (info.transformCache?.rawHash != hashContent)
+                info.transformCache = { rawHash: hashContent, result: await info.transform(rawData, { path: info.inputFilePath, location: info.location, timing: info.timing, mode, mime }) };
+            const result = info.transformCache.result;
+            const { data, mode: newMode, mime: newMime } = (typeof result == "string" || result instanceof Uint8Array) ? { data: result, mode: undefined, mime: undefined } : result;
+            if (newMode && !FETCH_TYPE_MODES.includes(newMode))
+                throw new Error(`The transform for ${info.inputFilePath} returned an unknown mode: "${newMode}"`);
+            info.mode = newMode || mode;
+            info.mime = newMime || mime;
+            rawData = toBuffer(data);
+            hashContent = createHash("sha256").update(rawData).digest("hex");
+        }
+
+        if (hashContent != info.hashContent) {
+            info.rawData = rawData;
+            info.hashContent = hashContent;
+            info.assetFileName = null;
+        }
+    }
     return {
         name: PLUGIN_NAME,
-        async resolveId(id, importer, { assertions }) {
+        buildStart() {
+            // Per-file options are checked as each file is imported (since they can be merged from several places), but the plugin's own can be checked up front
+            for (const [key, value] of [["inlineLimit", inlineLimit], ["inlineBudget", inlineBudget], ["integrity", integrity], ["precompress.threshold", precompressThreshold]] as const) {
+                const expected = checkOption(key, value);
+                if (expected)
+                    return this.error(`${PLUGIN_NAME} was given ${key}: ${JSON.stringify(value)}, but it must be ${expected}.`);
+            }
+
+            infosThisBuild.clear();
+            globsThisBuild.clear();
+            emittedAssetsByContent.clear();
+            ownFileReferenceIds.clear();
+        },
+        watchChange(id) {
+            invalidateFiles(info => info.inputFilePath == id);
+        },
+        configResolved(config) {
+            projectDir = config.root;
+            devBase = (config.base.startsWith("/") ? config.base : "/");
+        },
+        configureServer(server) {
+            devServer = server;
+            server.middlewares.use((req, res, next) => {
+                if (req.method != "GET" && req.method != "HEAD")
+                    return next();
+                let path: string;
+                try {
+                    path = decodeURIComponent((req.url ?? "").replace(/[?#].*$/, ""));
+                }
+                catch {
+                    // Not a URL that we could've served anything at (like "/%E0%A4%A")
+                    return next();
+                }
+                const info = devAssets.get(path);
+                if (!info?.rawData)
+                    return next();
+                res.setHeader("Content-Type", info.mime);
+                res.setHeader("Content-Length", info.rawData.length);
+                res.setHeader("Cache-Control", "no-cache");
+                res.end(req.method == "HEAD" ? undefined : info.rawData);
+            });
+        },
+        handleHotUpdate({ file, modules }) {
+            // Files that are only imported through this plugin aren't modules as far as Vite's concerned, so their (virtual) modules are updated instead.
+            const invalidated = invalidateFiles(info => !info.inputFilePath.startsWith(VIRTUAL_PREFIX) && normalizePath(info.inputFilePath) == normalizePath(file));
+            if (invalidated.length)
+                return [...modules, ...invalidated];
+        },
+        async resolveId(id, importer, resolveOptions) {
             if (id == DATA_HELPER_DECODE)
                 return id;
 
+            // The helpers for Node import some of its built-in modules
+            if (id.startsWith("node:") && (importer == DATA_HELPER_DECODE || importer?.startsWith(SELFISH_DATA_PREFIX)))
+                return { id, external: true };
+
             if (id.startsWith(DATA_PREFIX) || (!!include && filter(id))) {
                 const url = new URL(id);
                 const searchParams = url.searchParams;
-                let importerDir = importer ? dirname(importer) : projectDir;
-                let inputFilePath = url.pathname.startsWith("~/") ? join(projectDir, url.pathname.substring(2)) :
-                    url.pathname.startsWith("~") ? join(projectDir, url.pathname.substring(1)) :
-                        isAbsolute(url.pathname) ? url.pathname :
-                            join(importerDir, url.pathname);
-                //if (!infoByImport.has(id)) {
-                    let outputDirectory = ".";
-                    let outputFilePath: string;
-                    let ext: string;
-                    {
-                        const p = inputFilePath;
-                        const bn = basename(p);
-                        ext = extname(p);
-                        const filename = bn.substring(0, bn.length - ext.length);
-                        const hasher = createHash("sha256");
-                        const pathRelativeToProject = relative(projectDir, p);
-                        hasher.update(pathRelativeToProject);
-                        const hash = hasher.digest("hex");
-                        const o = { fileExtWithDot: ext, fileName: filename, hashPathRelative: hash, pathRelative: pathRelativeToProject };
-                        if (transformFilePath)
-                            outputFilePath = transformFilePath(o);
-                        else
-                            outputFilePath = getDefaultAssetPath(o);
-                    }
-                    let fileReferenceId: string | undefined;
+                const pathname = decodeURIComponent(url.pathname);
 
-                    let { mode: defaultMode, location: defaultLocation, mime: defaultMime, timing: defaultTiming } = mergeOptions((fileOptions ?? ((): ReturnType<NonNullable<DataPluginOptions["fileOptions"]>> => ({})))(inputFilePath), fileTypes?.[ext as never] ?? {});
+                // Import attributes (`with { ... }`) were import assertions (`assert { ... }`) in older versions of Rollup, but they work the same way
+                const attributes: Record<string, string> = (resolveOptions as { attributes?: Record<string, string> }).attributes ?? resolveOptions.assertions ?? {};
+                for (const key of Object.keys(attributes)) {
+                    if (key != "glob" && !(IMPORT_OPTIONS as readonly string[]).includes(key))
+                        this.warn({ message: `${importer} imported ${id} with an unknown import attribute "${key}", which was ignored (it can only have ${formatChoices([...IMPORT_OPTIONS, "glob"])}).`, ...getImportLocation(this, importer, id) });
+                }
 
-                    const { location: aLocation, mime: aMime, mode: aMode, timing: aTiming } = (assertions || {}) as PerFileOptions;
-                    const [qLocation, qMime, qMode, qTiming] = [searchParams.get("location") as DataPluginInfo["location"], searchParams.get("mime"), searchParams.get("mode") as DataPluginInfo["mode"], searchParams.get("timing") as DataPluginInfo["timing"]];
+                // Globs (or folders imported with ?glob, or the glob import attribute) become a module that imports each file individually
+                // (Only a `*` makes a path a glob, so that files with brackets and the like in their names can still be imported; an escaped `%2A` is just part of a name)
+                const globScan = url.pathname.includes("*") ? picomatch.scan(pathname) : null;
+                const globOption = (searchParams.get("glob") || attributes.glob || (searchParams.has("glob") ? "" : null));
+                for (const [value, source] of [[searchParams.get("glob"), "the query string"], [attributes.glob, "the import attributes"]]) {
+                    const expected = checkOption("glob", value);
+                    if (expected)
+                        return this.error({ message: `${importer} imported ${id} with glob: ${JSON.stringify(value)} (from ${source}), but it must be ${expected}.`, ...getImportLocation(this, importer, id) });
+                }
+                if (globScan || globOption != null) {
+                    const lazy = (globOption == "lazy");
+                    const baseDirectory = resolveInputPath(globScan ? globScan.base : pathname, importer);
+                    const pattern = globScan ? globScan.glob : "**/*";
+
+                    // Everything else in the query (or the import attributes) applies to each file.
+                    const forwardedParams = new URLSearchParams(searchParams);
+                    forwardedParams.delete("glob");
+                    for (const [key, value] of Object.entries(attributes)) {
+                        if (key != "glob" && !forwardedParams.has(key))
+                            forwardedParams.set(key, value);
+                    }
+                    const search = forwardedParams.toString();
+
+                    const key = JSON.stringify([baseDirectory, pattern, lazy, search]);
+                    let glob = globByKey.get(key);
+                    if (!glob) {
+                        glob = { import: id, uniqueId: uniqueIdCounter++, baseDirectory, pattern, lazy, search, specifiersByKey: new Map() };
+                        globByKey.set(key, glob);
+                        globByUid.set(glob.uniqueId, glob);
+                    }
+                    return { id: `${SELFISH_GLOB_PREFIX}${glob.uniqueId}` };
+                }
 
-                    // Input validation, yay
-                    if (aLocation && qLocation && aLocation != qLocation)
-                        throw new Error(`${importer} imported ${id}, but specified ${aLocation} via its import assertion.`);
-                    if (aMime && qMime && aMime != qMime)
-                        throw new Error(`${importer} imported ${id}, but specified ${aMime} via its import assertion.`);
-                    if (aMode && qMode && aMode != qMode)
-                        throw new Error(`${importer} imported ${id}, but specified ${aMode} via its import assertion.`);
-                    if (aTiming && qTiming && aTiming != qTiming)
-                        throw new Error(`${importer} imported ${id}, but specified ${aTiming} via its import assertion.`);
-
-                    const location = qLocation || aLocation || defaultLocation || "inline";
+                const virtual = pathname.startsWith(VIRTUAL_PREFIX) ? registeredData.get(pathname.substring(VIRTUAL_PREFIX.length)) : undefined;
+                if (pathname.startsWith(VIRTUAL_PREFIX) && !virtual)
+                    return this.error({ message: `${importer} imported ${id}, but nothing was registered as "${pathname.substring(VIRTUAL_PREFIX.length)}" (with api.registerData) by the time it was resolved.`, ...getImportLocation(this, importer, id) });
+
+                let inputFilePath = virtual ? pathname : resolveInputPath(pathname, importer);
+                {
+                    const ext = extname(inputFilePath);
+
+                    // Everything that can set this file's options, from highest to lowest priority (except for the query params and import attributes, which come first)
+                    const layers: Array<{ source: string, options: PerFileOptions | null | undefined }> = [
+                        { source: "api.registerData", options: virtual?.options },
+                        { source: "fileOptions", options: fileOptions?.(inputFilePath) },
+                        ...ruleFilters.flatMap(({ filter, options }, i) => filter(inputFilePath) ? [{ source: `rules[${i}]`, options }] : []),
+                        { source: ext in userFileTypes ? `fileTypes[${JSON.stringify(ext)}]` : `the default for ${JSON.stringify(ext)}`, options: fileTypes?.[ext as never] }
+                    ];
+                    let { mode: defaultMode, location: defaultLocation, mime: defaultMime, timing: defaultTiming, namedExports, schema, imageMetadata, inlineLimit: fileInlineLimit, integrity: fileIntegrity, transform, compress, encoding, retries, retryDelay, timeout, fallback, deferred } = layers.reduceRight<PerFileOptions>((merged, { options }) => mergeOptions(options, merged), {});
+
+                    // The query string and import attributes can both set the same options, as long as they agree.
+                    for (const key of IMPORT_OPTIONS) {
+                        const query = searchParams.get(key);
+                        if (query && attributes[key] && query != attributes[key])
+                            return this.error({ message: `${importer} imported ${id}, but its ${key} is "${query}" in the query string and "${attributes[key]}" in its import attributes.`, ...getImportLocation(this, importer, id) });
+                    }
+                    const [qLocation, qMode, qTiming, qMime] = IMPORT_OPTIONS.map(key => searchParams.get(key)) as [FetchLocation | null, FetchTypeMode | null, FetchMethod | null, string | null];
+                    const { location: aLocation, mime: aMime, mode: aMode, timing: aTiming } = attributes as PerFileOptions;
+
+                    const explicitLocation = qLocation || aLocation || defaultLocation;
+                    const location = explicitLocation || "inline";
+                    // Without an explicit location, the file's size decides (once it's known during load)
+                    const autoInlineLimit = explicitLocation ? null : (fileInlineLimit ?? inlineLimit ?? null);
                     const mode = (qMode || aMode || defaultMode || "blob");
                     const mime = (qMime || aMime || defaultMime || "application/octet-stream");
                     const timing = (qTiming || aTiming || defaultTiming || "async");
 
-                    // Back to input validation...
-                    if (location != "asset" && location != "inline")
-                        throw new Error(`${importer} imported ${id} with an unknown location specified: "${location}"`);
-                    if (mode != "blob" && mode != "array-buffer" && mode != "json" && mode != "text" && mode != "response")
-                        throw new Error(`${importer} imported ${id} with an unknown mode specified: "${mode}"`);
+                    // Where each option came from, for debugging and for errors
+                    const sourceOf = (key: keyof PerFileOptions, query?: string | null, attribute?: string) =>
+                        query ? "the query string" : attribute ? "the import attributes" : (layers.find(({ options }) => options?.[key] != null)?.source ?? "the default");
+
+                    // Input validation, yay
+                    // (Bad options from the import itself point to the import, and anything else names where it came from)
+                    const invalid = (key: keyof PerFileOptions, value: unknown, expected: string, query?: string | null, attribute?: string) => this.error({
+                        message: `${importer} imported ${id} with ${key}: ${JSON.stringify(value)} (from ${sourceOf(key, query, attribute)}), but it must be ${expected}.`,
+                        ...((query || attribute) ? getImportLocation(this, importer, id) : { id: importer })
+                    });
+                    // (The options that the import itself can set are checked once they've been resolved, so that they can point to it)
+                    for (const [key, value, query, attribute] of [["location", location, qLocation, aLocation], ["mode", mode, qMode, aMode], ["timing", timing, qTiming, aTiming], ["mime", mime, qMime, aMime]] as const) {
+                        const expected = checkOption(key, value);
+                        if (expected)
+                            return invalid(key, value, expected, query, attribute);
+                    }
+                    for (const [key, value] of Object.entries({ namedExports, schema, imageMetadata, inlineLimit: fileInlineLimit, integrity: fileIntegrity, transform, compress, encoding, retries, retryDelay, timeout, fallback, deferred })) {
+                        const expected = checkOption(key as keyof PerFileOptions, value);
+                        if (expected)
+                            return invalid(key as keyof PerFileOptions, value, expected);
+                    }
 
-                    if (location == "asset") {
-                        fileReferenceId = this.emitFile({ type: "asset", fileName: outputFilePath });
-                        filePathsToEmitIds.set(outputFilePath, fileReferenceId);
+                    if (debug && !infosBySpecifier.has(id)) {
+                        this.info(`${id} (imported by ${importer}):\n` +
+                            `  location: ${(autoInlineLimit == null || timing == "sync") ? `"${location}" (from ${sourceOf("location", qLocation, aLocation)})` : `decided by its size (inlineLimit: ${autoInlineLimit})`}\n` +
+                            `  mode: "${mode}" (from ${sourceOf("mode", qMode, aMode)})\n` +
+                            `  timing: "${timing}" (from ${sourceOf("timing", qTiming, aTiming)})\n` +
+                            `  mime: "${mime}" (from ${sourceOf("mime", qMime, aMime)})`);
+                    }
+
+                    // A Promise that's only resolved in buildEnd would never be resolved in Vite's dev server, and waiting for it would hang instead
+                    const defer = (deferred ?? (virtual?.data instanceof Promise));
+                    if (devServer && defer && virtual?.data instanceof Promise)
+                        return this.error({ message: `${importer} imported ${id}, whose data was registered as a Promise, so it's deferred until buildEnd, which Vite's dev server never gets to. Register its data once it's ready instead (or register it with deferred: false if the Promise resolves before buildEnd).`, ...getImportLocation(this, importer, id) });
+
+                    const key = JSON.stringify([inputFilePath, autoInlineLimit == null ? location : "auto", mode, timing, mime]);
+                    if (!infosBySpecifier.has(id))
+                        infosBySpecifier.set(id, new Set());
+                    if (infoByKey.has(key)) {
+                        infosBySpecifier.get(id)!.add(infoByKey.get(key)!);
+                        return { id: `${SELFISH_DATA_PREFIX}${infoByKey.get(key)!.uniqueId}` };
                     }
 
                     let newInfo: DataPluginInfo = {
-                        outputFilePath: fileReferenceId ? this.getFileName(fileReferenceId) : outputFilePath,
+                        outputFilePath: null, // Wait until we know what's in the file
                         mode: mode,
                         rawData: null, // Wait to load this
+                        hashContent: null,
+                        assetFileName: null,
                         uniqueId: uniqueIdCounter++,
                         inputFilePath,
-                        outputDirectory,
-                        fileReferenceId,
+                        fileReferenceId: undefined,
                         import: id,
                         location: location,
                         timing: timing,
                         mime,
+                        namedExports: namedExports ?? false,
+                        schema: schema ?? null,
+                        imageMetadata: imageMetadata ?? false,
+                        inlineLimit: autoInlineLimit,
+                        integrity: fileIntegrity ?? integrity ?? false,
+                        transform: transform ?? null,
+                        untransformed: { mode, mime },
+                        transformCache: null,
+                        compress: compress ?? null,
+                        compressedData: null,
+                        compressedHash: null,
+                        encoding: encoding ?? "base64",
+                        retries: retries ?? 0,
+                        retryDelay: retryDelay ?? 1000,
+                        timeout: timeout ?? null,
+                        fallback: fallback ?? null,
+                        precompressed: null,
+                        // Promises from other plugins are usually only resolved late in the build
+                        // (Vite's dev server never gets to buildEnd, so files are always read right away there)
+                        deferred: !devServer && defer,
+                        locationIsExplicit: !!explicitLocation,
+                        inlinedLength: null,
                         dirty: true
                     }
 
-                    infoByImport.set(newInfo.import, newInfo)
+                    infoByKey.set(key, newInfo)
+                    infosBySpecifier.get(id)!.add(newInfo);
                     infoByUid.set(newInfo.uniqueId, newInfo);
-                //}
-                return {
-                    id: `${SELFISH_DATA_PREFIX}${infoByImport.get(id)!.uniqueId}`
+                    return {
+                        id: `${SELFISH_DATA_PREFIX}${newInfo.uniqueId}`
+                    }
                 }
             }
         },
         async load(id) {
             if (id == DATA_HELPER_DECODE) {
-                return decodeResponseHelperFile;
+                return await getHelperFile();
+            }
+            else if (id.startsWith(SELFISH_GLOB_PREFIX)) {
+                const glob = globByUid.get(+id.substring(SELFISH_GLOB_PREFIX.length))!;
+                globsThisBuild.add(glob);
+                // Watching the folder means adding or removing files triggers a rebuild too
+                this.addWatchFile(glob.baseDirectory);
+
+                let files: string[];
+                try {
+                    files = await listFiles(glob.baseDirectory);
+                }
+                catch (ex) {
+                    return this.error(`${glob.import} matches files in ${glob.baseDirectory}, but it could not be read: ${(ex as Error).message}`);
+                }
+                const isMatch = picomatch(glob.pattern);
+
+                glob.specifiersByKey.clear();
+                for (const file of files.filter(file => isMatch(file)).sort()) {
+                    // These are always absolute paths, so they need the same escaping as any other URL (and a `*` is escaped so that it isn't a glob again)
+                    const path = encodeURI(normalizePath(join(glob.baseDirectory, file))).replace(/[?#*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+                    glob.specifiersByKey.set(file, `${DATA_PREFIX}${path}${glob.search ? `?${glob.search}` : ""}`);
+                }
+
+                const entries = [...glob.specifiersByKey];
+                if (glob.lazy) {
+                    return `
+export default {
+${entries.map(([key, specifier]) => `    ${JSON.stringify(key)}: () => import(${JSON.stringify(specifier)}).then(m => m.default),`).join("\n")}
+};`
+                }
+                else {
+                    return `
+${entries.map(([_key, specifier], i) => `import data${i} from ${JSON.stringify(specifier)};`).join("\n")}
+export default {
+${entries.map(([key], i) => `    ${JSON.stringify(key)}: data${i},`).join("\n")}
+};`
+                }
             }
             else if (id.startsWith(SELFISH_DATA_PREFIX)) {
                 let info = infoByUid.get(+id.substring(SELFISH_DATA_PREFIX.length))!;
+                infosThisBuild.add(info);
+                if (!info.inputFilePath.startsWith(VIRTUAL_PREFIX))
+                    this.addWatchFile(info.inputFilePath);
+
+                if (info.deferred) {
+                    const needsContents = (info.transform ? "transform" : info.imageMetadata ? "imageMetadata" : (info.mode == "json" && info.namedExports && info.location == "inline") ? "namedExports" : null);
+                    if (needsContents)
+                        return this.error(`${info.inputFilePath} can't be deferred, because ${needsContents} needs its contents as soon as it's imported.`);
+                }
+                else {
+                    // (A transform can also change the file's mode, which changes the code generated here)
+                    await readDataFile(info);
+                }
+
+                const helperFile = (inlineHelpers ? await getHelperFile() : "");
+
+                // e.g. "array-buffer" uses decodeInlineArrayBuffer/decodeAssetArrayBuffer
+                const m = info.mode.split("-").map(capitalize).join("");
+                // FontFaces need a name, so they're named after their file
+                const decodeArgs = (info.mode == "font-face" ? `, ${JSON.stringify(basename(info.inputFilePath, extname(info.inputFilePath)))}` : "");
+
+                // Files that are over the inline limit become assets (this is re-checked every build, since the file may have changed size).
+                // (Worklets can't load assets, so this doesn't apply to them.)
+                if (info.inlineLimit != null && target != "worklet") {
+                    // (Deferred files might not exist yet, in which case the location's left as-is)
+                    const size = !info.deferred ? info.rawData!.length : info.inputFilePath.startsWith(VIRTUAL_PREFIX) ? null : await stat(info.inputFilePath).then(s => s.size, () => null);
+                    // A sync asset is imported as its URL rather than its data, so it stays inline instead of changing what it imports as.
+                    if (size != null && info.timing == "sync") {
+                        if (size > info.inlineLimit)
+                            this.warn(`${info.inputFilePath} is ${size} bytes, which is over the inline limit of ${info.inlineLimit} bytes, but it's still inlined because it has timing: "sync" (as an asset, it would be imported as its URL instead of its data). Set its location explicitly to choose one.`);
+                    }
+                    else if (size != null)
+                        info.location = (size > info.inlineLimit ? "asset" : "inline");
+                }
+
+                if (info.compress && info.location == "inline" && !(info.mode == "json" && info.namedExports)) {
+                    if (target == "worklet")
+                        return this.error(`${info.inputFilePath} can't be compressed in a worklet (worklets don't have DecompressionStream); remove its compress option.`);
+                    if (info.timing != "async")
+                        return this.error(`${info.inputFilePath} can't be compressed with timing: "${info.timing}" (decompressing is asynchronous); use timing: "async" instead.`);
+                }
+
+                if (target == "worklet") {
+                    // Worklets don't have fetch, Blob, or Response, so anything that needs them can't work.
+                    if (info.location == "asset")
+                        return this.error(`${info.inputFilePath} can't be loaded in a worklet with location: "asset" (worklets can't fetch); use location: "inline" instead.`);
+                    if (info.timing == "lazy")
+                        return this.error(`${info.inputFilePath} can't be loaded in a worklet with timing: "lazy" (worklets can't fetch); use timing: "sync" or "async" instead.`);
+                    if (info.mode != "array-buffer" && info.mode != "text" && info.mode != "json")
+                        return this.error(`${info.inputFilePath} can't be loaded in a worklet with mode: "${info.mode}" (worklets don't have Blob, Response, etc.); use mode: "array-buffer", "text", or "json" instead.`);
+                }
+                if (target == "node" && (info.mode == "image-bitmap" || info.mode == "font-face"))
+                    return this.error(`${info.inputFilePath} can't be loaded in Node with mode: "${info.mode}" (Node doesn't have ${info.mode == "font-face" ? "FontFace" : "createImageBitmap"}); use mode: "blob" or "array-buffer" instead.`);
+
+                if (!info.deferred)
+                    prepareDataFile(this, info);
+
+                // Image metadata comes from the file's header.
+                let metadataExports = "";
+                if (info.imageMetadata) {
+                    const metadata = getImageMetadata(info.rawData!);
+                    if (!metadata)
+                        return this.error(`${info.inputFilePath} was imported with imageMetadata, but it's not an image format that's recognized (PNG, JPEG, GIF, WebP, AVIF, BMP, ICO, or SVG with a width and height)`);
+                    metadataExports = `
+export const width = ${metadata.width};
+export const height = ${metadata.height};
+export const mime = ${JSON.stringify(metadata.mime)};
+export const size = ${info.rawData!.length};
+export const averageColor = ${JSON.stringify(metadata.averageColor)};`;
+                }
 
-                let m = capitalize(info.mode);
-                if (m == "Array-buffer")
-                    m = "ArrayBuffer";
+                // The file's data, URL, etc. that's embedded in the module.
+                // Deferred files haven't been read yet, so they get a placeholder that's filled in during renderChunk instead.
+                const embed = (kind: EmbeddedValueKind) => {
+                    if (info.deferred)
+                        return `undefined/**@__AWAITING_DATAFILE_${kind}_${info.uniqueId}__**/`;
+                    return getEmbeddedValue(kind, info, () => devServer ? getDevAssetUrlExpression(assetUrl!, devBase, normalizePath(info.assetFileName!)) : `import.meta.ROLLUP_FILE_URL_${info.fileReferenceId}`);
+                }
 
-                if (info.location == "asset" && info.timing == "sync") {
+                // e.g. decodeBase85, for binary data that's not base64 (unused if it turns out not to be binary after all)
+                const encodingImport = (info.encoding != "base64" ? `, decode${capitalize(info.encoding)}` : "");
+
+                // Fetched assets can be checked against their hash, retried, and time out (only the options that aren't the defaults are included).
+                // Each of those is its own helper, so assets that don't use them don't need to include them.
+                const isAsset = (info.location == "asset");
+                const checkIntegrity = (isAsset && !!info.integrity);
+                const withRetries = (isAsset && (!!info.retries || info.timeout != null));
+                const fetcher = (checkIntegrity ? `withIntegrity(${fetchFunction}, ${embed("INTEGRITY")}${target == "node" ? ", nodeDigest" : ""})` : fetchFunction);
+                const retryOptions = (signal: boolean) => [
+                    signal ? "signal" : null,
+                    info.retries ? `retries: ${info.retries}` : null,
+                    info.retries && info.retryDelay != 1000 ? `retryDelay: ${info.retryDelay}` : null,
+                    info.timeout != null ? `timeout: ${info.timeout}` : null
+                ].filter(option => option != null);
+                const fetchCall = (url: string, signal: boolean) => withRetries ?
+                    `fetchAssetWithRetries(${fetcher}, ${url}, ${JSON.stringify(info.import)}, { ${retryOptions(signal).join(", ")} })` :
+                    `fetchAsset(${fetcher}, ${url}, ${JSON.stringify(info.import)}${signal ? ", signal" : ""})`;
+                const fetchImports = `${withRetries ? "fetchAssetWithRetries" : "fetchAsset"}${checkIntegrity ? `, withIntegrity${target == "node" ? ", nodeDigest" : ""}` : ""}${fetchImport}`;
+
+                // Assets that couldn't be fetched can resolve to something else instead (with the same arguments as decodeInline*, for an inline copy).
+                const fallbackArg = (!isAsset || !info.fallback) ? "" :
+                    info.fallback == "inline" ? `, () => decodeInline${m}(${embed("FALLBACK")}${decodeArgs})` :
+                        `, () => (${escapeProtoKeys(JSON.stringify(info.fallback.value) ?? "undefined")})`;
+                const fallbackImport = (isAsset && info.fallback == "inline" ? `, decodeInline${m}${encodingImport}` : "");
+                // (Lazy loads pass their signal along too, so that being aborted is never mistaken for failing and replaced with the fallback)
+
+                if (info.timing == "lazy") {
+                    const url = embed(info.location == "asset" ? "URL" : "BASE64");
+                    return `
+${inlineHelpers ? `${helperFile}\n\n` : `import { createLazyHandle, decodeAsset${m}, ${fetchImports}${fallbackImport} } from ${JSON.stringify(DATA_HELPER_DECODE)};`}
+const url = ${url};
+const data = createLazyHandle(url, signal => decodeAsset${m}(${fetchCall("url", true)}${decodeArgs}${fallbackArg || ", null"}, signal));
+export default data;${metadataExports}`
+                }
+                else if (info.location == "asset" && info.timing == "sync") {
                     return `
-const url = ${JSON.stringify(normalizePath(relative(info.outputDirectory, info.outputFilePath!)))};
-export default url;`
+const url = ${embed("URL")};
+export default url;${metadataExports}`
                 }
                 else if (info.location == "asset") {
 
                     return `
-${inlineHelpers ? `${decodeResponseHelperFile}\n\n` : `import { decodeAsset${m} } from ${JSON.stringify(DATA_HELPER_DECODE)};`}
-const data = ${useTopLevelAwait ? "await " : ""}decodeAsset${m}(fetch(${JSON.stringify(normalizePath(relative(info.outputDirectory, info.outputFilePath!)))}));
-export default data;`
+${inlineHelpers ? `${helperFile}\n\n` : `import { decodeAsset${m}, ${fetchImports}${fallbackImport} } from ${JSON.stringify(DATA_HELPER_DECODE)};`}
+const data = ${useTopLevelAwait ? "await " : ""}decodeAsset${m}(${fetchCall(embed("URL"), false)}${decodeArgs}${fallbackArg});
+export default data;${metadataExports}`
+                }
+                else if (info.mode == "json" && info.namedExports) {
+                    // The module's exports depend on the file's contents
+                    return escapeProtoKeys(dataToEsm(parseJsonFile(this, info), { namedExports: true, preferConst: true }));
+                }
+                else if (info.compress) {
+                    return `
+${inlineHelpers ? `${helperFile}\n\n` : `import { decodeInlineCompressed, decodeInline${m}, decodeAsset${m}${encodingImport} } from ${JSON.stringify(DATA_HELPER_DECODE)};`}
+const data = ${useTopLevelAwait ? "await " : ""}decodeInlineCompressed(${embed("BASE64")}, ${embed("COMPRESSION")}, ${decodeArgs ? `data => decodeInline${m}(data${decodeArgs}), response => decodeAsset${m}(response${decodeArgs})` : `decodeInline${m}, decodeAsset${m}`});
+export default data;${metadataExports}`
                 }
                 else {
                     return `
-                    ${inlineHelpers ? `${decodeResponseHelperFile}\n\n` : `import { decodeInline${m} } from ${JSON.stringify(DATA_HELPER_DECODE)};`}
-const data = ${useTopLevelAwait ? "await " : ""}decodeInline${m}(undefined/**@__AWAITING_DATAFILE_BASE64_${info.uniqueId}__**/);
-export default data;`
+                    ${inlineHelpers ? `${helperFile}\n\n` : `import { decodeInline${m}${encodingImport} } from ${JSON.stringify(DATA_HELPER_DECODE)};`}
+const data = ${useTopLevelAwait ? "await " : ""}decodeInline${m}(${embed("BASE64")}${decodeArgs});
+export default data;${metadataExports}`
                 }
             }
         },
-        async buildEnd() {
-            // If other plugins write files during buildEnd, wait for them to do so before reading what they've written.
-            // TODO: There's gotta be a better way than asking those plugins to look for us and tell us what they're doing, right.
-            await Promise.all([...promisesToWaitFor]);
+        async buildEnd(error) {
+            if (error)
+                return;
 
-            // Now read all of the files' data (they should all exist by now).
-            await Promise.all([...infoByImport].map(async ([, info]) => { info.rawData = await readFile(info.inputFilePath); }));
+            // Deferred files might be written by other plugins during buildEnd, so wait for them to do so before reading what they've written.
+            // TODO: There's gotta be a better way than asking those plugins to look for us and tell us what they're doing, right.
+            const deferredInfos = [...infosThisBuild].filter(info => info.deferred);
+            if (deferredInfos.length) {
+                await Promise.all([...promisesToWaitFor]);
+
+                // In watch mode, only the files that changed since the last build are read again.
+                await Promise.all(deferredInfos.map(readDataFile));
+                for (const info of deferredInfos)
+                    prepareDataFile(this, info);
+            }
 
-            // Read all the files we've been emitting files for, and wait for all of them to finish in parallel.
-            for (const [_id, info] of infoByImport) {
-                if (info.location == "asset" && info.dirty) {
-                    info.dirty = false;
-                    this.setAssetSource(info.fileReferenceId!, info.rawData!);
+            if (inlineBudget != null) {
+                for (const info of infosThisBuild) {
+                    if (info.location == "inline" && info.locationIsExplicit && info.rawData!.length > inlineBudget)
+                        this.warn(`${info.inputFilePath} is inlined (as was explicitly requested), but it's ${info.rawData!.length} bytes, which is over the inline budget of ${inlineBudget} bytes.`);
                 }
             }
 
-
+            if (typeDeclarations) {
+                // If the same string was used to import more than one file (e.g. relative paths from different folders),
+                // then the best we can do is a union of all of them.
+                const declarations: string[] = [];
+                const globChildSpecifiers = new Set([...globsThisBuild].flatMap(glob => [...glob.specifiersByKey.values()]));
+                const getSpecifierType = (specifier: string) => [...new Set([...infosBySpecifier.get(specifier) ?? []].filter(info => infosThisBuild.has(info)).map(info => getImportType(info, useTopLevelAwait)))].join(" | ") || "unknown";
+
+                // TypeScript treats a `*` in a module's name as a wildcard, and only allows one of them, so globs like "./icons/**/*.svg" are declared as "./icons/*.svg"
+                // (which still matches them), and any globs that end up with the same name share a union of their types.
+                const globTypesByModuleName = new Map<string, string[]>();
+                for (const glob of [...globsThisBuild].sort((a, b) => a.import.localeCompare(b.import))) {
+                    const entries = [...glob.specifiersByKey].map(([key, specifier]) => `        ${JSON.stringify(key)}: ${glob.lazy ? `() => Promise<${getSpecifierType(specifier)}>` : getSpecifierType(specifier)};\n`);
+                    const moduleName = (glob.import.includes("*") ? `${glob.import.substring(0, glob.import.indexOf("*"))}*${glob.import.substring(glob.import.lastIndexOf("*") + 1)}` : glob.import);
+                    const types = globTypesByModuleName.get(moduleName) ?? [];
+                    types.push(`{\n${entries.join("")}    }`);
+                    globTypesByModuleName.set(moduleName, types);
+                }
+                for (const [moduleName, types] of globTypesByModuleName)
+                    declarations.push(`declare module ${JSON.stringify(moduleName)} {\n    const data: ${[...new Set(types)].join(" | ")};\n    export default data;\n}\n`);
+
+                for (const [specifier, infos] of [...infosBySpecifier].sort(([a], [b]) => a.localeCompare(b))) {
+                    // The files a glob matched are only imported by that glob, so they don't need declarations of their own
+                    if (globChildSpecifiers.has(specifier))
+                        continue;
+                    const infosUsed = [...infos].filter(info => infosThisBuild.has(info));
+                    const types = [...new Set(infosUsed.map(info => getImportType(info, useTopLevelAwait)))];
+                    if (types.length) {
+                        // Files with named exports get those declared too (as long as there's no ambiguity about which file this is)
+                        let namedExports = "";
+                        if (infosUsed.length == 1 && infosUsed[0].imageMetadata) {
+                            namedExports = `    export const width: number;\n    export const height: number;\n    export const mime: string;\n    export const size: number;\n    export const averageColor: string | null;\n`;
+                        }
+                        else if (infosUsed.length == 1 && infosUsed[0].mode == "json" && infosUsed[0].location == "inline" && infosUsed[0].namedExports) {
+                            const data = JSON.parse(infosUsed[0].rawData!.toString("utf-8"));
+                            if (data && typeof data == "object" && !Array.isArray(data)) {
+                                for (const [key, value] of Object.entries(data)) {
+                                    if (key == makeLegalIdentifier(key))
+                                        namedExports += `    export const ${key}: ${jsonToType(value, "    ")};\n`;
+                                }
+                            }
+                        }
+                        declarations.push(`declare module ${JSON.stringify(specifier)} {\n    const data: ${types.join(" | ")};\n    export default data;\n${namedExports}}\n`);
+                    }
+                }
+                const contents = `// Generated by ${PLUGIN_NAME}; any changes will be overwritten on the next build.\n\n${declarations.join("\n")}`;
+                const declarationPath = join(projectDir, typeDeclarations);
+                const previousContents = await readFile(declarationPath, "utf-8").catch(() => null);
+                if (contents != previousContents)
+                    await writeFile(declarationPath, contents);
+            }
+        },
+        resolveFileUrl({ referenceId, fileName, chunkId, format }) {
+            // Our assets' URLs follow assetUrl and target, instead of Rollup's default of always being relative to import.meta.url
+            if (ownFileReferenceIds.has(referenceId))
+                return getAssetUrlExpression(assetUrl!, fileName, chunkId, format, target);
         },
-        async renderChunk(_code, _chunk, _options): Promise<{ code: string; map?: SourceMapInput }> {
+        async renderChunk(_code, chunk, options): Promise<{ code: string; map?: SourceMapInput } | null> {
 
-            // We need to replace the temporary variables we set during load, but, like,
+            // Deferred files weren't read until buildEnd, so we need to replace the temporary variables we set during load, but, like,
             // is this...the best way of doing this...?
             // I haven't found a better way to "replace" a variable's value after build,
             // and this works, but it's pretty sus.
+            // (Only deferred files need this; everything else was embedded during load)
+            if (![...infosThisBuild].some(info => info.deferred))
+                return null;
             const s = new MagicString(_code);
-            s.replaceAll(/undefined\/\*\*@__AWAITING_DATAFILE_BASE64_([0-9]+)__\*\*\//g, (_m, i): string => {
+            s.replaceAll(/undefined\/\*\*@__AWAITING_DATAFILE_(BASE64|URL|INTEGRITY|COMPRESSION|FALLBACK)_([0-9]+)__\*\*\//g, (_m, kind: string, i: string): string => {
                 const uniqueId = +i;
                 const info = infoByUid.get(uniqueId);
                 if (!info)
                     return "undefined";
-                const rawData = info.rawData!;
-                switch (info.mode) {
-                    case "text":
-                        // return the data, assume it's encoded in UTF-8 (TODO on that)
-                        return JSON.stringify(info.rawData?.toString("utf-8"));
-                    case "json":
-                        // stringify then parse to make sure it's actually JSON, but not parsed from a string on the client at runtime
-                        // (lots of unnecessary quotes in the result but a minifier'll clean those right out)
-                        return info.rawData ? JSON.parse(JSON.stringify(info.rawData.toString("utf-8"))) : "undefined";
-
-                    case "response":
-                    case "array-buffer":
-                    case "blob":
-                        // encode the data as base64 in both cases.
-                        // the virtual module decodes it into a Blob or ArrayBuffer as appropriate
-                        const beforeSplit = rawData.toString("base64");
-                        const splitSize = 1024;  // Must be a multiple of 4, this is 1kb
-                        let afterSplit: string[] = [];
-                        for (let i = 0; i < beforeSplit.length; i += splitSize)
-                            afterSplit.push(beforeSplit.substring(i, i + splitSize));
-                        return `"data:${info.mime};base64,\\\n${afterSplit.join("\\\n")}"`;
-                    default:
-                        // why would you do this?
-                        throw new Error(`Unknown mode for file "${info.inputFilePath}": ${info.mode}`);
-                }
+                return getEmbeddedValue(kind as EmbeddedValueKind, info, () => getAssetUrlExpression(assetUrl!, normalizePath(info.outputFilePath!), chunk.fileName, options.format, target));
             });
 
             return {
@@ -434,122 +1774,51 @@ export default data;`
                 map: s.generateMap({ hires: true }) as SourceMapInput, // ??? https://stackoverflow.com/questions/76186660/how-to-use-magicstring-to-provide-a-sourcemap-with-rollups-renderchunk-hook
             }
         },
+        generateBundle(_options, bundle) {
+            if (!manifest)
+                return;
+
+            const chunks = Object.values(bundle).filter((output): output is OutputChunk => output.type == "chunk");
+            const files = [...infosThisBuild].sort((a, b) => a.uniqueId - b.uniqueId).map((info): ManifestEntry => {
+                const moduleId = `${SELFISH_DATA_PREFIX}${info.uniqueId}`;
+                return {
+                    imports: [...infosBySpecifier].filter(([, infos]) => infos.has(info)).map(([specifier]) => specifier),
+                    source: getDisplayPath(info.inputFilePath),
+                    location: info.location,
+                    mode: info.mode,
+                    timing: info.timing,
+                    mime: info.mime,
+                    size: info.rawData!.length,
+                    encodedSize: info.location == "asset" ? info.rawData!.length : info.inlinedLength,
+                    chunks: chunks.filter(chunk => (chunk.modules[moduleId]?.renderedLength ?? 0) > 0).map(chunk => chunk.fileName),
+                    fileName: info.location == "asset" ? normalizePath(info.outputFilePath!) : null,
+                    integrity: getIntegrity(info.rawData!, "sha384"),
+                    precompressed: info.location == "asset" ? [...emittedAssetsByContent.get(info.hashContent!)?.precompressedFileNames ?? []] : []
+                };
+            });
+
+            this.emitFile({ type: "asset", fileName: manifest === true ? "datafile-manifest.json" : manifest, source: JSON.stringify({ files }, null, 2) });
+        },
         api: {
             promisesToWaitFor,
-            filePathsToEmitIds
+            filePathsToEmitIds,
+            registerData(name: string, data: DataSource | Promise<DataSource>, options: PerFileOptions = {}) {
+                // Don't let a rejected promise go unhandled before it's awaited (it'll still fail the build then)
+                Promise.resolve(data).catch(() => { });
+                registeredData.set(name, { data, options });
+                // (Unlike in handleHotUpdate, Vite isn't about to send an update for these modules anyway, so it's asked to)
+                for (const module of invalidateFiles(info => info.inputFilePath == `${VIRTUAL_PREFIX}${name}`))
+                    devServer?.reloadModule?.(module).catch(() => { });
+            }
         }
     }
 }
 
 export { dataPlugin };
 
-const Base64Regex = /.+:(.+?\/.+?)?(;base64)?,(.+)/;
-
-// TODO: Make this not be a string, that's not awesome.
-// Also TODO a couple of these are basically no-ops, which is lame.
-const decodeResponseHelperFile = `
-
-const itoc = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/=';
-let ctoi = {};
-for (var index = 0; index < 66; index++) ctoi[itoc.charAt(index)] = index;
-var finalEq = /[=]{1,2}$/;
-function atob2(data) {
-	// Fun fact: Worklets have neither fetch nor atob.
-	// Meaning no way to decode base64...feels like an oversight?
-	// But even besides that issue atob itself returns a string (not an ArrayBuffer) so requires manual copying,
-	// another hit against atob.
-	//
-	// Instead, we manually implement a variant based on core-js's (MIT) implementation
-
-	let string = data.trim();
-	let position = 0;
-	let bc = 0;
-	let chr, bs;
-	if (string.length % 4 === 0) {
-		string = string.replace(finalEq, '');
-	}
-	if (string.length % 4 === 1) {
-		throw new DOMException('The string is not correctly encoded', 'InvalidCharacterError');
-	}
-	const byteCount = Math.floor(string.length * 6 / 8);
-	const ret = new Uint8Array(byteCount);
-	let outPos = 0;
-	while (chr = string.charAt(position++)) {
-		if (ctoi.hasOwnProperty(chr)) {
-			bs = bc % 4 ? bs * 64 + ctoi[chr] : ctoi[chr];
-			if (bc++ % 4) 
-				ret[outPos++] = (255 & bs >> (-2 * bc & 6));
-		}
-	} 
-	
-	return ret.buffer;
+/** The runtime helpers (built from src/runtime into dist/runtime), read the first time any build needs them. */
+let runtimeHelpers: Promise<{ decode: string, node: string }> | null = null;
+function readRuntimeHelpers() {
+    runtimeHelpers ??= Promise.all([readFile(new URL("../runtime/decode.js", import.meta.url), "utf-8"), readFile(new URL("../runtime/node.js", import.meta.url), "utf-8")]).then(([decode, node]) => ({ decode, node }));
+    return runtimeHelpers;
 }
-
-function decodeInlineBase64(base64) {
-	const regex = ${Base64Regex.toString()};
-	const parsed = regex.exec(base64);
-	let mime;
-	let sextets = base64;
-	if (parsed) {
-		mime = parsed[1];
-		sextets = parsed[3];
-	}
-	const buffer = atob2(sextets);
-	return { mime, buffer };
-}
-
-async function decodeAssetShared(response, action, backup) {
-	if ("then" in response) {
-		return await decodeAssetShared(await response, action, backup);
-	}
-	if (response.ok) {
-		return await action(await response);
-	}
-	if (backup != null)
-		return await backup;
-
-	throw new Error("Critical error: could not load file: HTTP response " + response.status);
-}
-
-export function decodeInlineBlob(base64) {
-	const { mime, buffer } = decodeInlineBase64(base64);
-	return new Blob([buffer], { type: mime })
-}
-
-export function decodeInlineArrayBuffer(base64) {
-	return decodeInlineBase64(base64).buffer;
-}
-
-export function decodeInlineText(text) {
-	return text;
-}
-
-export function decodeInlineJson(json) {
-	return json;
-}
-
-export function decodeInlineResponse(base64) {
-	return fetch(base64);
-}
-
-export async function decodeAssetBlob(response, backupValue = null) {
-	return await decodeAssetShared(response, r => r.blob(), backupValue);
-}
-
-export async function decodeAssetText(response, backupValue = "") {
-	return await decodeAssetShared(response, r => r.text(), backupValue);
-}
-
-export async function decodeAssetJson(response, backupValue = "") {
-	return await decodeAssetShared(response, r => r.json(), backupValue);
-}
-
-export async function decodeAssetArrayBuffer(response, backupValue = "") {
-	return await decodeAssetShared(response, r => r.arrayBuffer(), backupValue);
-}
-
-export async function decodeAssetResponse(response) {
-	return await decodeAssetShared(response, r => r, response);
-}
-
-`
\ No newline at end of file
@@ -0,0 +1,129 @@
+export type JsonSchemaType = "null" | "boolean" | "number" | "integer" | "string" | "array" | "object";
+
+/**
+ * The subset of [JSON Schema](https://json-schema.org/) that's checked at build time.
+ *
+ * Any other keywords (`$ref`, `format`, etc.) are ignored.
+ */
+export interface JsonSchema {
+    type?: JsonSchemaType | JsonSchemaType[];
+    enum?: unknown[];
+    const?: unknown;
+
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+
+    minimum?: number;
+    maximum?: number;
+
+    allOf?: JsonSchema[];
+    anyOf?: JsonSchema[];
+    oneOf?: JsonSchema[];
+    not?: JsonSchema;
+}
+
+function getType(value: unknown): JsonSchemaType {
+    if (value === null)
+        return "null";
+    if (Array.isArray(value))
+        return "array";
+    if (typeof value == "number")
+        return Number.isInteger(value) ? "integer" : "number";
+    return typeof value as JsonSchemaType;
+}
+
+function deepEqual(lhs: unknown, rhs: unknown): boolean {
+    if (lhs === rhs)
+        return true;
+    if (getType(lhs) != getType(rhs) || typeof lhs != "object" || lhs == null)
+        return false;
+    const lhsKeys = Object.keys(lhs);
+    const rhsKeys = Object.keys(rhs as object);
+    return lhsKeys.length == rhsKeys.length && lhsKeys.every(k => deepEqual((lhs as never)[k], (rhs as never)[k]));
+}
+
+/**
+ * Checks a parsed JSON value against a schema.
+ *
+ * @returns A list of every problem found, each prefixed with a JSON pointer to where it was found (e.g. `/sizes/2`). Empty if the value is valid.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, pointer = ""): string[] {
+    const errors: string[] = [];
+    const at = pointer || "/";
+    const type = getType(value);
+
+    if (schema.type != null) {
+        const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!allowed.some(t => t == type || (t == "number" && type == "integer")))
+            return [`${at} must be of type ${allowed.join(" | ")}, but is ${type}`];
+    }
+    if (schema.enum && !schema.enum.some(e => deepEqual(e, value)))
+        errors.push(`${at} must be one of ${schema.enum.map(e => JSON.stringify(e)).join(", ")}`);
+    if ("const" in schema && !deepEqual(schema.const, value))
+        errors.push(`${at} must be ${JSON.stringify(schema.const)}`);
+
+    if (type == "object") {
+        const obj = value as Record<string, unknown>;
+        // (Only the object's own properties count, not ones like "toString" that every object inherits)
+        const has = (object: object | undefined, key: string) => !!object && Object.prototype.hasOwnProperty.call(object, key);
+        for (const key of schema.required ?? []) {
+            if (!has(obj, key))
+                errors.push(`${at} is missing the required property ${JSON.stringify(key)}`);
+        }
+        for (const [key, child] of Object.entries(obj)) {
+            const childPointer = `${pointer}/${key.replace(/~/g, "~0").replace(/\//g, "~1")}`;
+            const childSchema = has(schema.properties, key) ? schema.properties![key] : undefined;
+            if (childSchema)
+                errors.push(...validateJsonSchema(child, childSchema, childPointer));
+            else if (schema.additionalProperties === false)
+                errors.push(`${childPointer} is not an allowed property`);
+            else if (typeof schema.additionalProperties == "object")
+                errors.push(...validateJsonSchema(child, schema.additionalProperties, childPointer));
+        }
+    }
+    else if (type == "array") {
+        const array = value as unknown[];
+        if (schema.minItems != null && array.length < schema.minItems)
+            errors.push(`${at} must have at least ${schema.minItems} items`);
+        if (schema.maxItems != null && array.length > schema.maxItems)
+            errors.push(`${at} must have at most ${schema.maxItems} items`);
+        if (schema.items)
+            array.forEach((child, i) => errors.push(...validateJsonSchema(child, schema.items!, `${pointer}/${i}`)));
+    }
+    else if (type == "string") {
+        const str = value as string;
+        if (schema.minLength != null && str.length < schema.minLength)
+            errors.push(`${at} must be at least ${schema.minLength} characters long`);
+        if (schema.maxLength != null && str.length > schema.maxLength)
+            errors.push(`${at} must be at most ${schema.maxLength} characters long`);
+        if (schema.pattern != null && !new RegExp(schema.pattern, "u").test(str))
+            errors.push(`${at} must match the pattern ${schema.pattern}`);
+    }
+    else if (type == "number" || type == "integer") {
+        const num = value as number;
+        if (schema.minimum != null && num < schema.minimum)
+            errors.push(`${at} must be at least ${schema.minimum}`);
+        if (schema.maximum != null && num > schema.maximum)
+            errors.push(`${at} must be at most ${schema.maximum}`);
+    }
+
+    for (const child of schema.allOf ?? [])
+        errors.push(...validateJsonSchema(value, child, pointer));
+    if (schema.anyOf && !schema.anyOf.some(child => validateJsonSchema(value, child, pointer).length == 0))
+        errors.push(`${at} must match at least one of the schemas in anyOf`);
+    if (schema.oneOf && schema.oneOf.filter(child => validateJsonSchema(value, child, pointer).length == 0).length != 1)
+        errors.push(`${at} must match exactly one of the schemas in oneOf`);
+    if (schema.not && validateJsonSchema(value, schema.not, pointer).length == 0)
+        errors.push(`${at} must not match the schema in not`);
+
+    return errors;
+}
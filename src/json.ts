@@ -0,0 +1,93 @@
+/**
+ * Finds the character offset of the first syntax error in some (invalid) JSON text.
+ *
+ * `JSON.parse` only sometimes mentions where things went wrong, depending on the error and the version of V8,
+ * so this walks through the text itself just to find that position. It's only ever used after `JSON.parse` has already failed.
+ *
+ * @returns The offset of the first character that can't be part of valid JSON, or `null` if the text seems valid after all.
+ */
+export function findJsonErrorPosition(text: string): number | null {
+    let i = 0;
+
+    function skipWhitespace() {
+        while (i < text.length && " \t\n\r".includes(text[i]))
+            ++i;
+    }
+
+    function expect(literal: string) {
+        if (text.startsWith(literal, i))
+            i += literal.length;
+        else
+            throw i;
+    }
+
+    function string() {
+        expect("\"");
+        while (i < text.length && text[i] != "\"") {
+            if (text.charCodeAt(i) < 0x20)
+                throw i;
+            if (text[i] == "\\") {
+                ++i;
+                if (text[i] == "u") {
+                    if (!/^[0-9a-fA-F]{4}$/.test(text.substring(i + 1, i + 5)))
+                        throw i;
+                    i += 4;
+                }
+                else if (!"\"\\/bfnrt".includes(text[i] ?? "x")) {
+                    throw i;
+                }
+            }
+            ++i;
+        }
+        expect("\"");
+    }
+
+    function number() {
+        const match = /^-?(0|[1-9][0-9]*)(\.[0-9]+)?([eE][+-]?[0-9]+)?/.exec(text.substring(i));
+        if (!match)
+            throw i;
+        i += match[0].length;
+    }
+
+    function list(close: string, item: () => void) {
+        ++i;
+        skipWhitespace();
+        if (text[i] == close) {
+            ++i;
+            return;
+        }
+        for (;;) {
+            item();
+            skipWhitespace();
+            if (text[i] == close) {
+                ++i;
+                return;
+            }
+            expect(",");
+        }
+    }
+
+    function value() {
+        skipWhitespace();
+        switch (text[i]) {
+            case "{": return list("}", () => { skipWhitespace(); string(); skipWhitespace(); expect(":"); value(); });
+            case "[": return list("]", value);
+            case "\"": return string();
+            case "t": return expect("true");
+            case "f": return expect("false");
+            case "n": return expect("null");
+            default: return number();
+        }
+    }
+
+    try {
+        value();
+        skipWhitespace();
+        if (i < text.length)
+            throw i;
+        return null;
+    }
+    catch (position) {
+        return position as number;
+    }
+}
@@ -0,0 +1,430 @@
+// This module is what the code generated for each `datafile:` import uses to decode its data at runtime.
+// It's built on its own (to dist/runtime) and then served as a virtual module (or pasted into each module, with helperFileName: null),
+// so everything in it is tree-shakable: nothing happens at the top level, and anything that's only needed sometimes is created on first use.
+//
+// Fun fact: Worklets have neither fetch nor atob, so the decoders here can't rely on either.
+
+// Not in TypeScript's DOM types yet
+declare class DecompressionStream implements ReadableWritablePair<Uint8Array, BufferSource> {
+    constructor(format: string);
+    readonly readable: ReadableStream<Uint8Array>;
+    readonly writable: WritableStream<BufferSource>;
+}
+
+/** What the dense encodings (base85 and latin1) decode to, which can be used anywhere a `data:` URL can */
+export interface DecodedData {
+    mime: string | undefined;
+    buffer: ArrayBuffer;
+}
+
+/** Inline binary data, as either a base64 `data:` URL or something a dense encoding's already decoded */
+export type InlineSource = string | DecodedData;
+
+/** Returns what to use instead of an asset that couldn't be loaded (its inline copy, or a value the user chose) */
+export type Fallback = (() => unknown) | null;
+
+/** Thrown when an asset couldn't be loaded (after all its retries, if it had any). */
+export class DataFileLoadError extends Error {
+    /** The `datafile:` import that the asset was loaded for */
+    readonly id: string;
+    /** The last HTTP status that was received, or `null` if there wasn't one (the network failed, the request timed out, etc.) */
+    readonly status: number | null;
+
+    constructor(message: string, id: string, status: number | null, cause?: unknown) {
+        super(message);
+        this.name = "DataFileLoadError";
+        this.id = id;
+        this.status = status;
+        if (cause !== undefined)
+            Object.assign(this, { cause });
+    }
+}
+
+/** How an asset is fetched by `fetchAssetWithRetries` (everything's optional, and the defaults don't retry or time out) */
+export interface FetchAssetOptions {
+    signal?: AbortSignal;
+    /** How many more times to try after the first attempt fails */
+    retries?: number;
+    /** How long to wait before the first retry, in milliseconds; it doubles after every retry. */
+    retryDelay?: number;
+    /** How long each attempt can take to respond, in milliseconds */
+    timeout?: number;
+}
+
+const base64Alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+// Z85, which (unlike Ascii85) doesn't use quotes or backslashes, so it can go straight into a string literal
+const base85Alphabet = "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ.-:+=^!/*?&<>()[]{}@%$#";
+
+let base64Lookup: Uint8Array | undefined;
+let base85Lookup: Uint8Array | undefined;
+
+function createLookup(alphabet: string) {
+    const lookup = new Uint8Array(128);
+    for (let i = 0; i < alphabet.length; ++i)
+        lookup[alphabet.charCodeAt(i)] = i;
+    return lookup;
+}
+
+/** Decodes (unpadded or padded) base64, with `Uint8Array.fromBase64` when it's available and a lookup table when it's not. */
+export function decodeBase64(base64: string): Uint8Array {
+    // (Not in TypeScript's types yet either)
+    const native = Uint8Array as unknown as { fromBase64?(base64: string): Uint8Array };
+    if (native.fromBase64)
+        return native.fromBase64(base64);
+
+    const lookup = (base64Lookup ||= createLookup(base64Alphabet));
+    let length = base64.length;
+    while (length > 0 && base64.charCodeAt(length - 1) == 61 /* = */)
+        --length;
+    if (length % 4 == 1)
+        throw new DOMException("The string is not correctly encoded", "InvalidCharacterError");
+
+    const bytes = new Uint8Array((length * 3) >> 2);
+    let out = 0, i = 0;
+    for (; i + 4 <= length; i += 4) {
+        const bits = (lookup[base64.charCodeAt(i)] << 18) | (lookup[base64.charCodeAt(i + 1)] << 12) | (lookup[base64.charCodeAt(i + 2)] << 6) | lookup[base64.charCodeAt(i + 3)];
+        bytes[out++] = bits >> 16;
+        bytes[out++] = (bits >> 8) & 255;
+        bytes[out++] = bits & 255;
+    }
+    if (length - i >= 2) {
+        const bits = (lookup[base64.charCodeAt(i)] << 18) | (lookup[base64.charCodeAt(i + 1)] << 12) | (length - i == 3 ? lookup[base64.charCodeAt(i + 2)] << 6 : 0);
+        bytes[out++] = bits >> 16;
+        if (length - i == 3)
+            bytes[out++] = (bits >> 8) & 255;
+    }
+    return bytes;
+}
+
+/** Decodes data that was encoded as Z85 (padded to a multiple of 4 bytes, with the original `length` given separately). */
+export function decodeBase85(mime: string | undefined, base85: string, length: number): DecodedData {
+    const lookup = (base85Lookup ||= createLookup(base85Alphabet));
+    const bytes = new Uint8Array(Math.ceil(length / 4) * 4);
+    for (let i = 0, out = 0; i < base85.length; i += 5) {
+        const value = (((lookup[base85.charCodeAt(i)] * 85 + lookup[base85.charCodeAt(i + 1)]) * 85 + lookup[base85.charCodeAt(i + 2)]) * 85 + lookup[base85.charCodeAt(i + 3)]) * 85 + lookup[base85.charCodeAt(i + 4)];
+        bytes[out++] = value >>> 24;
+        bytes[out++] = (value >>> 16) & 255;
+        bytes[out++] = (value >>> 8) & 255;
+        bytes[out++] = value & 255;
+    }
+    return { mime, buffer: bytes.buffer.slice(0, length) };
+}
+
+/** Decodes data that was encoded as a string with one character per byte. */
+export function decodeLatin1(mime: string | undefined, latin1: string): DecodedData {
+    const bytes = new Uint8Array(latin1.length);
+    for (let i = 0; i < latin1.length; ++i)
+        bytes[i] = latin1.charCodeAt(i);
+    return { mime, buffer: bytes.buffer };
+}
+
+function decodeInlineSource(source: InlineSource): DecodedData {
+    if (typeof source != "string")
+        return source;
+    const parsed = /^data:([^,]*?)(;base64)?,/.exec(source);
+    if (!parsed)
+        return { mime: undefined, buffer: decodeBase64(source).buffer };
+    return { mime: parsed[1] || undefined, buffer: decodeBase64(source.substring(parsed[0].length)).buffer };
+}
+
+async function decodeAssetShared<T>(response: Response | PromiseLike<Response>, action: (response: Response) => T | PromiseLike<T>, fallback: Fallback, signal: AbortSignal | undefined): Promise<T> {
+    let r: Response;
+    try {
+        r = await response;
+    }
+    catch (ex) {
+        // Being aborted isn't a failure (whatever its reason was, like a timeout), so it's never replaced with the fallback
+        if (fallback && !signal?.aborted && (ex as Error).name != "AbortError")
+            return await fallback() as T;
+        throw ex;
+    }
+    // (fetchAsset has already rejected anything that wasn't ok)
+    return await action(r);
+}
+
+export function decodeInlineBlob(source: InlineSource) {
+    const { mime, buffer } = decodeInlineSource(source);
+    return new Blob([buffer], { type: mime });
+}
+
+export function decodeInlineArrayBuffer(source: InlineSource) {
+    return decodeInlineSource(source).buffer;
+}
+
+export function decodeInlineText(text: string) {
+    return text;
+}
+
+export function decodeInlineJson<T>(json: T) {
+    return json;
+}
+
+export function decodeInlineResponse(source: InlineSource) {
+    // A data URL can be decoded off the main thread by fetch
+    if (typeof source == "string")
+        return fetch(source);
+    return Promise.resolve(new Response(decodeInlineBlob(source)));
+}
+
+export function decodeInlineObjectUrl(source: InlineSource) {
+    return URL.createObjectURL(decodeInlineBlob(source));
+}
+
+export function decodeInlineStream(source: InlineSource) {
+    return decodeInlineBlob(source).stream();
+}
+
+export function decodeInlineImageBitmap(source: InlineSource) {
+    return createImageBitmap(decodeInlineBlob(source));
+}
+
+export function decodeInlineFontFace(source: InlineSource, family: string) {
+    return new FontFace(family, decodeInlineSource(source).buffer).load();
+}
+
+export function decodeInlineWasmModule(source: InlineSource) {
+    return WebAssembly.compile(decodeInlineSource(source).buffer);
+}
+
+export async function decodeInlineCompressed<T>(source: InlineSource | T, format: string | null, decodeInline: (source: InlineSource | T) => T | PromiseLike<T>, decodeAsset: (response: Response) => Promise<T>) {
+    // Files that weren't worth compressing are left as they were
+    if (!format)
+        return await decodeInline(source);
+    const { mime, buffer } = decodeInlineSource(source as InlineSource);
+    const stream = new Blob([buffer]).stream().pipeThrough(new DecompressionStream(format));
+    return await decodeAsset(new Response(stream, { headers: { "Content-Type": mime || "" } }));
+}
+
+export async function decodeAssetBlob(response: Response | PromiseLike<Response>, fallback: Fallback = null, signal?: AbortSignal) {
+    return await decodeAssetShared(response, r => r.blob(), fallback, signal);
+}
+
+export async function decodeAssetText(response: Response | PromiseLike<Response>, fallback: Fallback = null, signal?: AbortSignal) {
+    return await decodeAssetShared(response, r => r.text(), fallback, signal);
+}
+
+export async function decodeAssetJson(response: Response | PromiseLike<Response>, fallback: Fallback = null, signal?: AbortSignal) {
+    return await decodeAssetShared(response, r => r.json(), fallback, signal);
+}
+
+export async function decodeAssetArrayBuffer(response: Response | PromiseLike<Response>, fallback: Fallback = null, signal?: AbortSignal) {
+    return await decodeAssetShared(response, r => r.arrayBuffer(), fallback, signal);
+}
+
+export async function decodeAssetResponse(response: Response | PromiseLike<Response>, fallback: Fallback = null, signal?: AbortSignal) {
+    return await decodeAssetShared(response, r => r, fallback, signal);
+}
+
+export async function decodeAssetObjectUrl(response: Response | PromiseLike<Response>, fallback: Fallback = null, signal?: AbortSignal) {
+    return await decodeAssetShared(response, async r => URL.createObjectURL(await r.blob()), fallback, signal);
+}
+
+export async function decodeAssetStream(response: Response | PromiseLike<Response>, fallback: Fallback = null, signal?: AbortSignal) {
+    return await decodeAssetShared(response, r => r.body, fallback, signal);
+}
+
+export async function decodeAssetImageBitmap(response: Response | PromiseLike<Response>, fallback: Fallback = null, signal?: AbortSignal) {
+    return await decodeAssetShared(response, async r => await createImageBitmap(await r.blob()), fallback, signal);
+}
+
+export async function decodeAssetFontFace(response: Response | PromiseLike<Response>, family: string, fallback: Fallback = null, signal?: AbortSignal) {
+    return await decodeAssetShared(response, async r => await new FontFace(family, await r.arrayBuffer()).load(), fallback, signal);
+}
+
+export async function decodeAssetWasmModule(response: Response | PromiseLike<Response>, fallback: Fallback = null, signal?: AbortSignal) {
+    // compileStreaming only accepts responses that are served as application/wasm
+    return await decodeAssetShared(response, async r => (typeof WebAssembly.compileStreaming == "function" && r.headers.get("Content-Type") == "application/wasm") ?
+        await WebAssembly.compileStreaming(r) :
+        await WebAssembly.compile(await r.arrayBuffer()), fallback, signal);
+}
+
+type Fetcher = (url: string, init?: RequestInit) => Promise<Response>;
+type Digest = (algorithm: string, data: ArrayBuffer) => Promise<ArrayBuffer>;
+
+/** Why a single attempt at fetching an asset failed */
+interface FetchFailure {
+    status: number | null;
+    reason: string;
+    cause?: unknown;
+    /** Whether it might work next time (it's not a 404, its integrity didn't fail to match, etc.) */
+    retryable: boolean;
+}
+
+/**
+ * Wraps `fetcher` so that it rejects if what was fetched doesn't match `integrity` (`fetchAsset` says which file it was).
+ *
+ * Not every fetch supports integrity checks natively (and fetchFile, for Node, never does), so those are checked by hand instead, with `digest`
+ * (which defaults to the global `crypto.subtle.digest`, which Node 18 doesn't have; see `nodeDigest`).
+ */
+export function withIntegrity(fetcher: Fetcher, integrity: string, digest?: Digest): Fetcher {
+    return (url, init) => fetchWithIntegrity(fetcher, url, { ...init, integrity }, digest || ((algorithm, data) => crypto.subtle.digest(algorithm, data)));
+}
+
+function integrityMismatch(message: string) {
+    // (So it can be told apart from the network failing, which might go better next time)
+    return Object.assign(new Error(message), { name: "IntegrityError" });
+}
+
+async function fetchWithIntegrity(fetcher: Fetcher, url: string, init: RequestInit & { integrity: string }, digest: Digest) {
+    const { integrity, ...rest } = init;
+    if (fetcher === globalThis.fetch && typeof Request != "undefined" && "integrity" in Request.prototype) {
+        try {
+            return await fetcher(url, init);
+        }
+        catch (ex) {
+            if (init.signal?.aborted)
+                throw ex;
+        }
+        // Either the request failed or its contents didn't match its integrity, and fetch doesn't say which,
+        // so it's fetched again without the check (probably from the cache) and checked by hand to find out.
+    }
+
+    const response = await fetcher(url, rest);
+    if (!response.ok)
+        return response;
+    const [, algorithm, expected] = /^sha(256|384|512)-(.*)$/.exec(integrity)!;
+    const hash = new Uint8Array(await digest("SHA-" + algorithm, await response.clone().arrayBuffer()));
+    let actual = "";
+    for (let i = 0; i < hash.length; ++i)
+        actual += String.fromCharCode(hash[i]);
+    actual = btoa(actual);
+    if (actual != expected)
+        throw integrityMismatch("its contents didn't match its integrity (expected " + integrity + ", but got sha" + algorithm + "-" + actual + ")");
+    return response;
+}
+
+/** Fetches `url` once, resolving with why that failed instead of rejecting (unless it was aborted by `signal`, which rejects with its reason). */
+async function tryFetch(fetcher: Fetcher, url: string, init: RequestInit, signal: AbortSignal | undefined): Promise<Response | FetchFailure> {
+    try {
+        if (signal?.aborted)
+            throw signal.reason;
+        const response = await fetcher(url, init);
+        if (response.ok)
+            return response;
+        // Anything else (like a 404) isn't going to be any different the next time
+        const { status } = response;
+        return { status, reason: "HTTP response " + status, retryable: status == 408 || status == 429 || status >= 500 };
+    }
+    catch (ex) {
+        if (signal?.aborted)
+            throw signal.reason;
+        // (When the request itself was aborted, like by a timeout, the reason says why better than whatever the fetcher rejected with)
+        return { status: null, reason: ((init.signal?.aborted ? init.signal.reason : ex) as Error).message, cause: ex, retryable: (ex as Error).name != "IntegrityError" };
+    }
+}
+
+function loadFailed(id: string, attempts: number, { status, reason, cause }: FetchFailure) {
+    return new DataFileLoadError("Could not load " + id + (attempts > 1 ? " (after " + attempts + " attempts)" : "") + ": " + reason, id, status, cause);
+}
+
+/** Fetches an asset, rejecting with a `DataFileLoadError` if that fails, unless it was aborted by `signal`, in which case it rejects with the signal's reason. */
+export async function fetchAsset(fetcher: Fetcher, url: string, id: string, signal?: AbortSignal): Promise<Response> {
+    const result = await tryFetch(fetcher, url, { signal }, signal);
+    if ("reason" in result)
+        throw loadFailed(id, 1, result);
+    return result;
+}
+
+/**
+ * Like `fetchAsset`, but retries (with exponential backoff) when the network fails, the request times out, or the server says to try again later (408, 429, or 5xx).
+ * (Not when what was fetched didn't match its integrity, though, since that's not going to change.)
+ *
+ * Only used for imports that have `retries` or a `timeout`, so that everything else doesn't need to include it.
+ */
+export async function fetchAssetWithRetries(fetcher: Fetcher, url: string, id: string, { signal, retries = 0, retryDelay = 1000, timeout }: FetchAssetOptions = {}): Promise<Response> {
+    for (let attempt = 1; ; ++attempt) {
+        // Each attempt can be aborted by either the caller or its own timeout.
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(signal!.reason);
+        signal?.addEventListener("abort", onAbort, { once: true });
+        const timer = (timeout != null ? setTimeout(() => controller.abort(new DOMException("The request timed out after " + timeout + "ms", "TimeoutError")), timeout) : null);
+        let result: Response | FetchFailure;
+        try {
+            result = await tryFetch(fetcher, url, { signal: controller.signal }, signal);
+        }
+        finally {
+            if (timer != null)
+                clearTimeout(timer);
+            signal?.removeEventListener("abort", onAbort);
+        }
+        if (!("reason" in result))
+            return result;
+
+        if (!result.retryable || attempt > retries)
+            throw loadFailed(id, attempt, result);
+
+        await new Promise<void>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                signal?.removeEventListener("abort", onAbort);
+                resolve();
+            }, retryDelay * 2 ** (attempt - 1));
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(signal!.reason);
+            };
+            signal?.addEventListener("abort", onAbort, { once: true });
+        });
+    }
+}
+
+/** Creates what's imported for a file with `timing: "lazy"` (see `LazyDataHandle`). */
+export function createLazyHandle<T>(url: string, loader: (signal: AbortSignal) => Promise<T>) {
+    // The load that's currently in progress, shared between everyone who asked for it.
+    // It's only aborted once everyone who's waiting on it has aborted (anyone waiting without a signal can't abort).
+    interface PendingLoad { controller: AbortController, waiting: number, abortable: boolean, promise: Promise<T> }
+    let pending: PendingLoad | null = null;
+    const handle = {
+        url,
+        value: undefined as T | undefined,
+        loaded: false,
+        load(signal?: AbortSignal): Promise<T> {
+            if (handle.loaded)
+                return Promise.resolve(handle.value!);
+
+            // (A load that's been aborted might not have finished rejecting yet, but it's not going to be any use)
+            if (!pending || pending.controller.signal.aborted) {
+                const controller = new AbortController();
+                const current: PendingLoad = {
+                    controller,
+                    waiting: 0,
+                    abortable: true,
+                    promise: loader(controller.signal).then(value => {
+                        // Whatever an aborted load resolved to (if it resolved at all) was never meant to be kept
+                        if (controller.signal.aborted)
+                            throw controller.signal.reason;
+                        handle.value = value;
+                        handle.loaded = true;
+                        return value;
+                    }).finally(() => {
+                        if (pending === current)
+                            pending = null;
+                    })
+                };
+                pending = current;
+            }
+
+            const current = pending;
+            if (!signal) {
+                current.abortable = false;
+                return current.promise;
+            }
+            if (signal.aborted)
+                return Promise.reject(signal.reason);
+
+            ++current.waiting;
+            return new Promise<T>((resolve, reject) => {
+                const onAbort = () => {
+                    reject(signal.reason);
+                    if (--current.waiting == 0 && current.abortable)
+                        current.controller.abort(signal.reason);
+                };
+                signal.addEventListener("abort", onAbort, { once: true });
+                current.promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+            });
+        },
+        preload() {
+            handle.load().catch(() => { });
+        }
+    };
+    return handle;
+}
@@ -0,0 +1,24 @@
+// Extra helpers for `target: "node"`, where `fetch` can't read files from disk (and Node 18 doesn't have the global `crypto`).
+// (Served along with decode.ts, as part of the same virtual module)
+
+import { webcrypto } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+
+export async function fetchFile(url: string, init?: RequestInit) {
+    if (!url.startsWith("file:"))
+        return await fetch(url, init);
+    try {
+        return new Response(await readFile(fileURLToPath(url), { signal: init?.signal || undefined }));
+    }
+    catch (ex) {
+        if ((ex as Error).name == "AbortError")
+            throw ex;
+        return new Response(null, { status: 404, statusText: String((ex as Error).message) });
+    }
+}
+
+/** `crypto.subtle.digest`, for `withIntegrity`, since Node 18 doesn't have the global `crypto` */
+export function nodeDigest(algorithm: string, data: ArrayBuffer) {
+    return webcrypto.subtle.digest(algorithm, data);
+}
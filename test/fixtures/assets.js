@@ -0,0 +1,4 @@
+import url from "datafile:./image.png?location=asset&timing=sync";
+import text from "datafile:./hello.txt?location=inline&mode=text&timing=sync";
+
+export { url, text };
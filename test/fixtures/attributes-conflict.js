@@ -0,0 +1,3 @@
+import text from "datafile:./hello.txt?mode=text" assert { mode: "json" };
+
+export default text;
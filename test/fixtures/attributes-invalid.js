@@ -0,0 +1,3 @@
+import text from "datafile:./hello.txt" assert { timing: "later" };
+
+export default text;
@@ -0,0 +1,3 @@
+import text from "datafile:./hello.txt" assert { location: "inline", mode: "text", timing: "sync" };
+
+export default text;
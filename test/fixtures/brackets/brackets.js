@@ -0,0 +1,4 @@
+import one from "datafile:./file[1].txt?location=inline&mode=text&timing=sync";
+import all from "datafile:./*.txt?location=inline&mode=text&timing=sync";
+
+export { one, all };
@@ -0,0 +1,4 @@
+import * as shortHeader from "datafile:./short-ihdr.png?location=inline&timing=sync";
+import * as truncated from "datafile:./truncated.png?location=inline&timing=sync";
+
+export { shortHeader, truncated };
@@ -0,0 +1,3 @@
+import * as data from "datafile:./not-an-icon.bin?location=inline&timing=sync";
+
+export { data };
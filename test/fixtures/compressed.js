@@ -0,0 +1,3 @@
+import text from "datafile:./repeated.txt?location=inline&mode=text&timing=async";
+
+export default text;
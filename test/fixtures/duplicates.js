@@ -0,0 +1,4 @@
+import url from "datafile:./repeated.txt?location=asset&timing=sync";
+import text from "datafile:./repeated.txt?location=asset&mode=text&timing=async";
+
+export { url, text };
@@ -0,0 +1,3 @@
+import text from "datafile:./hello.txt?location=asset&mode=text&timing=async";
+
+export default text;
@@ -0,0 +1,3 @@
+import icons from "datafile:./icons" assert { glob: "lazy", location: "inline", mode: "text", timing: "sync" };
+
+export default icons;
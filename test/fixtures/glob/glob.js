@@ -0,0 +1,3 @@
+import icons from "datafile:./icons/**/*.svg?location=inline&mode=text&timing=sync";
+
+export default icons;
@@ -0,0 +1,3 @@
+import icons from "datafile:./icons" assert { glob: "yes" };
+
+export default icons;
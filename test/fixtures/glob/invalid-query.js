@@ -0,0 +1,3 @@
+import icons from "datafile:./icons?glob=lazyy";
+
+export default icons;
@@ -0,0 +1,3 @@
+import json from "datafile:./inherited.json?location=inline&mode=json&timing=sync";
+
+export { json };
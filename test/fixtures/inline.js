@@ -0,0 +1,4 @@
+import text from "datafile:./hello.txt?location=inline&mode=text&timing=sync";
+import json from "datafile:./data.json?location=inline&mode=json&timing=sync";
+
+export { text, json };
@@ -0,0 +1,4 @@
+import inline from "datafile:./hello.txt?location=inline&mode=text&timing=lazy";
+import asset from "datafile:./hello.txt?location=asset&mode=text&timing=lazy";
+
+export { inline, asset };
@@ -0,0 +1,6 @@
+import objectUrl from "datafile:./hello.txt?location=inline&mode=object-url&timing=sync";
+import stream from "datafile:./hello.txt?location=inline&mode=stream&timing=sync";
+import inlineWasm from "datafile:./empty.wasm?location=inline&timing=async";
+import wasm from "datafile:./empty.wasm?location=asset&timing=async";
+
+export { objectUrl, stream, inlineWasm, wasm };
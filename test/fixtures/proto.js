@@ -0,0 +1,3 @@
+import data from "datafile:./proto.json?location=inline&mode=json&timing=sync";
+
+export default data;
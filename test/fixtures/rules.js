@@ -0,0 +1,4 @@
+import data from "datafile:./data.json";
+import text from "datafile:./hello.txt?mode=text";
+
+export { data, text };
@@ -0,0 +1,5 @@
+import syncText from "datafile:./hello.txt?mode=text&timing=sync";
+import asyncText from "datafile:./hello.txt?mode=text&timing=async";
+import explicitText from "datafile:./repeated.txt?location=inline&mode=text&timing=sync";
+
+export { syncText, asyncText, explicitText };
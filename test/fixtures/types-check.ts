@@ -0,0 +1,26 @@
+// Uses everything types.js imports, as typed by the declarations that building it generated.
+import text from "datafile:./hello.txt?location=inline&mode=text&timing=sync";
+import data from "datafile:./data.json?location=inline&mode=json&timing=sync";
+import icons from "datafile:./glob/icons/**/*.svg?location=inline&mode=text&timing=sync";
+import lazyIcons from "datafile:./glob/icons/*.svg?glob=lazy&location=inline&mode=text&timing=sync";
+import lazyText from "datafile:./hello.txt?location=asset&mode=text&timing=lazy";
+import image, { width, height, mime, size, averageColor } from "datafile:./image.png?location=asset&timing=sync";
+
+export const values: [string, string, number[], string, Promise<string>, string | undefined, Promise<string>, string, number, number, string, number, string | null] = [
+    text,
+    data.name,
+    data.values,
+    icons["sub/c.svg"],
+    lazyIcons["a.svg"](),
+    lazyText.value,
+    lazyText.load(new AbortController().signal),
+    image,
+    width,
+    height,
+    mime,
+    size,
+    averageColor
+];
+
+// @ts-expect-error (Only the files that matched are declared)
+export const missing = icons["d.svg"];
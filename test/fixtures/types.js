@@ -0,0 +1,8 @@
+import text from "datafile:./hello.txt?location=inline&mode=text&timing=sync";
+import data from "datafile:./data.json?location=inline&mode=json&timing=sync";
+import icons from "datafile:./glob/icons/**/*.svg?location=inline&mode=text&timing=sync";
+import lazyIcons from "datafile:./glob/icons/*.svg?glob=lazy&location=inline&mode=text&timing=sync";
+import lazyText from "datafile:./hello.txt?location=asset&mode=text&timing=lazy";
+import image, { width } from "datafile:./image.png?location=asset&timing=sync";
+
+export { text, data, icons, lazyIcons, lazyText, image, width };
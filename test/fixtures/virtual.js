@@ -0,0 +1,3 @@
+import text from "datafile:virtual:late.txt";
+
+export default text;
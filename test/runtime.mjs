@@ -0,0 +1,258 @@
+import { createHash, randomBytes } from "crypto";
+import { createServer } from "http";
+
+import test from "ava";
+
+import { createLazyHandle, decodeAssetText, decodeBase64, decodeBase85, decodeLatin1, fetchAsset, fetchAssetWithRetries, withIntegrity } from "../dist/runtime/decode.js";
+import { nodeDigest } from "../dist/runtime/node.js";
+
+const id = "datafile:./file.txt";
+
+/** A fetcher that responds with each of `responses` in turn (a status, an error to reject with, or a body to send with a 200), and then keeps repeating the last one. */
+function fakeFetcher(...responses) {
+    const calls = [];
+    const fetcher = async (url, init) => {
+        calls.push({ url, init, time: Date.now() });
+        const next = responses[Math.min(calls.length, responses.length) - 1];
+        if (next instanceof Error)
+            throw next;
+        return (typeof next == "number" ? new Response(null, { status: next }) : new Response(next));
+    };
+    return Object.assign(fetcher, { calls });
+}
+
+/** A fetcher that never responds, and only rejects once it's aborted */
+function hangingFetcher(url, init) {
+    return new Promise((_, reject) => init.signal.addEventListener("abort", () => reject(init.signal.reason)));
+}
+
+test("decodeBase64 decodes what Buffer encodes, with or without padding", t => {
+    for (let length = 0; length < 40; ++length) {
+        const bytes = randomBytes(length);
+        const base64 = bytes.toString("base64");
+        t.deepEqual(Buffer.from(decodeBase64(base64)), bytes);
+        t.deepEqual(Buffer.from(decodeBase64(base64.replace(/=+$/, ""))), bytes);
+    }
+});
+
+test("decodeBase64 rejects a string that's the wrong length", t => {
+    t.throws(() => decodeBase64("QUJDR"), { any: true, name: "InvalidCharacterError" });
+});
+
+test("decodeBase85 decodes Z85, trimmed to the original length", t => {
+    // The example from the Z85 spec
+    const hello = [0x86, 0x4F, 0xD2, 0x6F, 0xB5, 0x59, 0xF7, 0x5B];
+    t.deepEqual(decodeBase85("text/plain", "HelloWorld", 8), { mime: "text/plain", buffer: new Uint8Array(hello).buffer });
+    t.deepEqual([...new Uint8Array(decodeBase85(undefined, "HelloWorld", 6).buffer)], hello.slice(0, 6));
+});
+
+test("decodeLatin1 decodes one byte per character", t => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    const { mime, buffer } = decodeLatin1("application/octet-stream", String.fromCharCode(...bytes));
+    t.is(mime, "application/octet-stream");
+    t.deepEqual(new Uint8Array(buffer), bytes);
+});
+
+test("fetchAsset rejects with a DataFileLoadError for an HTTP error, without retrying", async t => {
+    const fetcher = fakeFetcher(404);
+    const error = await t.throwsAsync(fetchAsset(fetcher, "/file.txt", id), { name: "DataFileLoadError", message: `Could not load ${id}: HTTP response 404` });
+    t.is(error.id, id);
+    t.is(error.status, 404);
+    t.is(fetcher.calls.length, 1);
+});
+
+test("fetchAsset rejects with a DataFileLoadError when the network fails", async t => {
+    const failure = new TypeError("fetch failed");
+    const error = await t.throwsAsync(fetchAsset(fakeFetcher(failure), "/file.txt", id), { name: "DataFileLoadError" });
+    t.is(error.status, null);
+    t.is(error.cause, failure);
+});
+
+test("fetchAssetWithRetries retries with exponential backoff", async t => {
+    const fetcher = fakeFetcher(503, new TypeError("fetch failed"), "data");
+    const response = await fetchAssetWithRetries(fetcher, "/file.txt", id, { retries: 2, retryDelay: 20 });
+    t.is(await response.text(), "data");
+    t.is(fetcher.calls.length, 3);
+    t.true(fetcher.calls[1].time - fetcher.calls[0].time >= 19);
+    t.true(fetcher.calls[2].time - fetcher.calls[1].time >= 39);
+});
+
+test("fetchAssetWithRetries only retries errors that might go away", async t => {
+    const fetcher = fakeFetcher(404);
+    await t.throwsAsync(fetchAssetWithRetries(fetcher, "/file.txt", id, { retries: 2, retryDelay: 1 }), { message: `Could not load ${id}: HTTP response 404` });
+    t.is(fetcher.calls.length, 1);
+});
+
+test("fetchAssetWithRetries gives up once there are no retries left", async t => {
+    const fetcher = fakeFetcher(500);
+    const error = await t.throwsAsync(fetchAssetWithRetries(fetcher, "/file.txt", id, { retries: 2, retryDelay: 1 }), { name: "DataFileLoadError", message: `Could not load ${id} (after 3 attempts): HTTP response 500` });
+    t.is(error.status, 500);
+    t.is(fetcher.calls.length, 3);
+});
+
+test("fetchAssetWithRetries times out each attempt", async t => {
+    let attempts = 0;
+    const error = await t.throwsAsync(fetchAssetWithRetries((url, init) => (++attempts, hangingFetcher(url, init)), "/file.txt", id, { retries: 1, retryDelay: 1, timeout: 20 }), {
+        name: "DataFileLoadError",
+        message: `Could not load ${id} (after 2 attempts): The request timed out after 20ms`
+    });
+    t.is(error.status, null);
+    t.is(attempts, 2);
+});
+
+test("fetchAssetWithRetries rejects with the signal's reason when it's aborted, even while waiting to retry", async t => {
+    const controller = new AbortController();
+    const reason = new Error("Not needed anymore");
+    const fetcher = fakeFetcher(503);
+    const promise = fetchAssetWithRetries(fetcher, "/file.txt", id, { signal: controller.signal, retries: 5, retryDelay: 1000 });
+    setTimeout(() => controller.abort(reason), 20);
+    t.is(await t.throwsAsync(promise), reason);
+    t.is(fetcher.calls.length, 1);
+});
+
+test("withIntegrity checks what was fetched against its hash", async t => {
+    const hash = "sha256-" + createHash("sha256").update("data").digest("base64");
+    const response = await fetchAsset(withIntegrity(fakeFetcher("data"), hash), "/file.txt", id);
+    t.is(await response.text(), "data");
+
+    await t.throwsAsync(fetchAsset(withIntegrity(fakeFetcher("tampered"), hash), "/file.txt", id), {
+        name: "DataFileLoadError",
+        message: /its contents didn't match its integrity \(expected sha256-.*, but got sha256-.*\)/
+    });
+});
+
+test("withIntegrity doesn't retry when what was fetched didn't match", async t => {
+    const hash = "sha256-" + createHash("sha256").update("data").digest("base64");
+    const fetcher = fakeFetcher("tampered");
+    await t.throwsAsync(fetchAssetWithRetries(withIntegrity(fetcher, hash, nodeDigest), "/file.txt", id, { retries: 3, retryDelay: 1 }), {
+        name: "DataFileLoadError",
+        message: /^Could not load datafile:\.\/file\.txt: its contents didn't match its integrity/
+    });
+    t.is(fetcher.calls.length, 1);
+});
+
+test("withIntegrity tells a mismatch apart from a failed request when fetch checks it natively", async t => {
+    let requests = 0;
+    const server = createServer((request, response) => (++requests, response.end("tampered")));
+    await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+    try {
+        const url = `http://127.0.0.1:${server.address().port}/file.txt`;
+        const hash = "sha256-" + createHash("sha256").update("data").digest("base64");
+        await t.throwsAsync(fetchAssetWithRetries(withIntegrity(fetch, hash), url, id, { retries: 3, retryDelay: 1 }), {
+            name: "DataFileLoadError",
+            message: `Could not load ${id}: its contents didn't match its integrity (expected ${hash}, but got sha256-${createHash("sha256").update("tampered").digest("base64")})`
+        });
+        // (Once with the check, and then once more without it to find out why it failed)
+        t.is(requests, 2);
+    }
+    finally {
+        server.close();
+    }
+});
+
+test("withIntegrity doesn't mistake a failed request for a mismatch when fetch checks it natively", async t => {
+    let requests = 0;
+    // (The first request fails before anything's sent back)
+    const server = createServer((request, response) => ++requests == 1 ? request.socket.destroy() : response.end("data"));
+    await new Promise(resolve => server.listen(0, "127.0.0.1", resolve));
+    try {
+        const url = `http://127.0.0.1:${server.address().port}/file.txt`;
+        const hash = "sha256-" + createHash("sha256").update("data").digest("base64");
+        const response = await fetchAsset(withIntegrity(fetch, hash), url, id);
+        t.is(await response.text(), "data");
+        t.is(requests, 2);
+    }
+    finally {
+        server.close();
+    }
+});
+
+test("decodeAsset* resolves to the fallback instead of rejecting", async t => {
+    t.is(await decodeAssetText(fetchAsset(fakeFetcher(404), "/file.txt", id), () => "fallback"), "fallback");
+    await t.throwsAsync(decodeAssetText(fetchAsset(fakeFetcher(404), "/file.txt", id)), { name: "DataFileLoadError" });
+});
+
+test("decodeAsset* doesn't use the fallback when it was aborted", async t => {
+    const controller = new AbortController();
+    const promise = decodeAssetText(fetchAsset(hangingFetcher, "/file.txt", id, controller.signal), () => "fallback");
+    controller.abort();
+    await t.throwsAsync(promise, { any: true, name: "AbortError" });
+});
+
+test("decodeAsset* doesn't use the fallback when its signal was aborted for any reason", async t => {
+    const controller = new AbortController();
+    const reason = new Error("Not needed anymore");
+    const promise = decodeAssetText(fetchAsset(hangingFetcher, "/file.txt", id, controller.signal), () => "fallback", controller.signal);
+    controller.abort(reason);
+    t.is(await t.throwsAsync(promise), reason);
+});
+
+test("createLazyHandle shares one load, and keeps its value", async t => {
+    let loads = 0;
+    const handle = createLazyHandle("/file.txt", async () => ++loads);
+    t.false(handle.loaded);
+    t.deepEqual(await Promise.all([handle.load(), handle.load()]), [1, 1]);
+    t.true(handle.loaded);
+    t.is(handle.value, 1);
+    t.is(await handle.load(), 1);
+    t.is(loads, 1);
+});
+
+test("createLazyHandle only aborts a load once everyone waiting on it has aborted", async t => {
+    const signals = [];
+    const handle = createLazyHandle("/file.txt", signal => (signals.push(signal), new Promise((_, reject) => signal.addEventListener("abort", () => reject(signal.reason)))));
+    const first = new AbortController(), second = new AbortController();
+    const firstLoad = handle.load(first.signal), secondLoad = handle.load(second.signal);
+
+    first.abort();
+    await t.throwsAsync(firstLoad, { any: true, name: "AbortError" });
+    t.false(signals[0].aborted);
+
+    second.abort();
+    await t.throwsAsync(secondLoad, { any: true, name: "AbortError" });
+    t.true(signals[0].aborted);
+
+    // Anyone who asks again gets a new load
+    handle.load(new AbortController().signal).catch(() => { });
+    t.is(signals.length, 2);
+});
+
+test("createLazyHandle can't be aborted by anyone while someone's waiting without a signal", async t => {
+    let signal;
+    let resolve;
+    const handle = createLazyHandle("/file.txt", s => (signal = s, new Promise(r => resolve = r)));
+    const controller = new AbortController();
+    const aborted = handle.load(controller.signal);
+    const waiting = handle.load();
+    controller.abort();
+    await t.throwsAsync(aborted, { any: true, name: "AbortError" });
+    t.false(signal.aborted);
+    resolve("data");
+    t.is(await waiting, "data");
+});
+
+test("createLazyHandle doesn't keep what a load that timed out resolved to, and loads again", async t => {
+    let respond = false;
+    const fetcher = (url, init) => respond ? fakeFetcher("data")(url, init) : hangingFetcher(url, init);
+    const handle = createLazyHandle("/file.txt", signal => decodeAssetText(fetchAsset(fetcher, "/file.txt", id, signal), () => "fallback", signal));
+
+    await t.throwsAsync(handle.load(AbortSignal.timeout(20)), { any: true, name: "TimeoutError" });
+    t.false(handle.loaded);
+
+    respond = true;
+    t.is(await handle.load(), "data");
+    t.true(handle.loaded);
+});
+
+test("createLazyHandle doesn't keep a value that was resolved after the load was aborted", async t => {
+    let resolve;
+    const handle = createLazyHandle("/file.txt", () => new Promise(r => resolve = r));
+    const controller = new AbortController();
+    const load = handle.load(controller.signal);
+    controller.abort();
+    resolve("too late");
+    await t.throwsAsync(load, { any: true, name: "AbortError" });
+    await new Promise(r => setTimeout(r));
+    t.false(handle.loaded);
+    t.is(handle.value, undefined);
+});
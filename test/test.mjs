@@ -0,0 +1,405 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { dirname, join, relative } from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+
+import test from "ava";
+import { rollup } from "rollup";
+import ts from "typescript";
+
+import dataPlugin from "../dist/es/index.js";
+
+const fixtures = join(dirname(fileURLToPath(import.meta.url)), "fixtures");
+const output = join(dirname(fileURLToPath(import.meta.url)), "output");
+
+/** Bundles one of the fixtures and writes it to output/<name>, collecting any warnings (and info logs). */
+async function build(t, input, options = {}, plugins = []) {
+    return await buildWith(t, input, [dataPlugin(options), ...plugins]);
+}
+
+async function buildWith(t, input, plugins) {
+    const warnings = [], logs = [];
+    const bundle = await rollup({
+        input: join(fixtures, input),
+        plugins,
+        onLog: (level, log, handler) => level == "info" ? logs.push(log) : handler(level, log),
+        onwarn: warning => warnings.push(warning)
+    });
+    const dir = join(output, t.title.replace(/\W+/g, "-"));
+    await rm(dir, { recursive: true, force: true });
+    const result = await bundle.write({ format: "es", dir, entryFileNames: "[name].mjs", chunkFileNames: "[name]-[hash].mjs" });
+    await bundle.close();
+    return { ...result, dir, warnings, logs };
+}
+
+/** Imports the entry chunk that `build` wrote. */
+async function evaluate({ dir, output }) {
+    return await import(pathToFileURL(join(dir, output[0].fileName)).href);
+}
+
+/** Creates the plugin as if it were running in Vite's dev server (which is faked with just the parts that the plugin uses), along with a way to make requests to that server. */
+function createDevServer(options) {
+    const plugin = dataPlugin(options);
+    const server = {
+        handler: null,
+        reloaded: [],
+        middlewares: { use: handler => server.handler = handler },
+        moduleGraph: { getModuleById: id => ({ id }), invalidateModule() { } },
+        async reloadModule(module) {
+            server.reloaded.push(module.id);
+        }
+    };
+    plugin.configResolved({ root: process.cwd(), base: "/" });
+    plugin.configureServer(server);
+
+    // Resolves to what was sent, or null if it was passed on to the next middleware
+    const request = (method, url) => new Promise(resolve => {
+        const headers = {};
+        server.handler({ method, url }, { setHeader: (key, value) => headers[key] = value, end: body => resolve({ headers, body }) }, () => resolve(null));
+    });
+    return { plugin, server, request };
+}
+
+test("embeds inline text and JSON", async t => {
+    const built = await build(t, "inline.js");
+    const { text, json } = await evaluate(built);
+    t.is(text, "Hello, world!\n");
+    t.deepEqual(json, { name: "data", values: [1, 2, 3] });
+    t.deepEqual(built.warnings, []);
+});
+
+test("imports every file that matches a glob, keyed by its relative path", async t => {
+    const { default: icons } = await evaluate(await build(t, "glob/glob.js"));
+    t.deepEqual(Object.keys(icons).sort(), ["a.svg", "b.svg", "sub/c.svg"]);
+    t.regex(icons["sub/c.svg"], /width="3"/);
+});
+
+test("imports every file in a folder with ?glob", async t => {
+    const { default: icons } = await evaluate(await build(t, "glob/folder.js"));
+    t.deepEqual(Object.keys(icons).sort(), ["a.svg", "b.svg", "sub/c.svg"]);
+});
+
+test("imports each file on demand with ?glob=lazy", async t => {
+    const built = await build(t, "glob/lazy.js");
+    const { default: icons } = await evaluate(built);
+    t.deepEqual(Object.keys(icons).sort(), ["a.svg", "b.svg"]);
+    t.true(built.output.filter(file => file.type == "chunk").length > 1);
+    const a = await icons["a.svg"]();
+    t.regex(a, /width="1"/);
+});
+
+test("imports a folder lazily with the glob import attribute", async t => {
+    const { default: icons } = await evaluate(await build(t, "glob/attributes.js"));
+    t.deepEqual(Object.keys(icons).sort(), ["a.svg", "b.svg", "sub/c.svg"]);
+    t.regex(await icons["sub/c.svg"](), /width="3"/);
+});
+
+for (const [input, value, source] of [["glob/invalid-query.js", "lazyy", "the query string"], ["glob/invalid-attribute.js", "yes", "the import attributes"]]) {
+    test(`rejects an invalid glob option from ${source}, pointing to the import`, async t => {
+        const error = await t.throwsAsync(build(t, input));
+        t.regex(error.message, new RegExp(`with glob: "${value}" \\(from ${source}\\), but it must be "lazy"`));
+        t.is(error.loc?.line, 1);
+    });
+}
+
+test("imports a file with brackets in its name as that file, not a glob, even when a glob matches it", async t => {
+    const { one, all } = await evaluate(await build(t, "brackets/brackets.js"));
+    t.is(one, "One\n");
+    t.deepEqual(all, { "file[1].txt": "One\n", "{two}.txt": "Two\n" });
+});
+
+test("only reads the data files that changed again when rebuilding in watch mode", async t => {
+    const dir = join(output, "watched-files");
+    await rm(dir, { recursive: true, force: true });
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, "entry.js"), `import a from "datafile:./a.txt?location=inline&mode=text&timing=sync";\nimport b from "datafile:./b.txt?location=inline&mode=text&timing=sync";\nexport { a, b };\n`);
+    await writeFile(join(dir, "a.txt"), "A");
+    await writeFile(join(dir, "b.txt"), "B");
+
+    const plugin = dataPlugin();
+    const input = relative(fixtures, join(dir, "entry.js"));
+    t.like(await evaluate(await buildWith(t, input, [plugin])), { a: "A", b: "B" });
+
+    // Rollup only says that a.txt changed, so b.txt keeps what was read the first time
+    await writeFile(join(dir, "a.txt"), "A2");
+    await writeFile(join(dir, "b.txt"), "B2");
+    plugin.watchChange(join(dir, "a.txt"), { event: "update" });
+    const rebuilt = await buildWith(t, input, [plugin]);
+    // (It's written to the same place as the first build, which Node has already imported)
+    t.like(await import(`${pathToFileURL(join(rebuilt.dir, rebuilt.output[0].fileName)).href}?rebuilt`), { a: "A2", b: "B" });
+});
+
+test("transforms data at build time, only once for the same contents", async t => {
+    const calls = [];
+    const transform = (data, info) => (calls.push(info), { data: JSON.stringify({ greeting: data.toString().trim() }), mode: "json", mime: "application/json" });
+    const plugin = dataPlugin({ rules: [{ test: "**/hello.txt", transform }] });
+    const { text } = await evaluate(await buildWith(t, "inline.js", [plugin]));
+    t.deepEqual(text, { greeting: "Hello, world!" });
+    t.like(calls[0], { path: join(fixtures, "hello.txt"), mode: "text", mime: "text/plain" });
+
+    // It's read again, but it hasn't actually changed
+    plugin.watchChange(join(fixtures, "hello.txt"), { event: "update" });
+    await buildWith(t, "inline.js", [plugin]);
+    t.is(calls.length, 1);
+});
+
+test("compresses inline data at build time and decompresses it at runtime", async t => {
+    const built = await build(t, "compressed.js", { rules: [{ test: "**/*.txt", compress: "gzip" }] });
+    const original = await readFile(join(fixtures, "repeated.txt"), "utf-8");
+    t.notRegex(built.output[0].code, /All work and no play/);
+    t.notRegex(built.output[0].code, new RegExp(Buffer.from(original).toString("base64").substring(0, 40)));
+    t.regex(built.output[0].code, /DecompressionStream/);
+    const { default: text } = await evaluate(built);
+    t.is(await text, original);
+
+    const error = await t.throwsAsync(build(t, "inline.js", { rules: [{ test: "**/*.txt", compress: "gzip" }] }));
+    t.regex(error.message, /can't be compressed with timing: "sync"/);
+});
+
+test("takes each option from the first rule that sets it, below the import's own options, and logs where they came from with debug", async t => {
+    const built = await build(t, "rules.js", {
+        debug: true,
+        fileTypes: { ".json": { mode: "json", timing: "async" } },
+        rules: [
+            { test: "**/data.json", timing: "sync" },
+            { test: "**/*.json", timing: "async", mode: "text" },
+            { test: "**/*.txt", mode: "json", timing: "sync" }
+        ]
+    });
+    const { data, text } = await evaluate(built);
+    t.is(data, "{ \"name\": \"data\", \"values\": [1, 2, 3] }\n");
+    t.is(text, "Hello, world!\n");
+
+    const log = built.logs.map(log => log.message).join("\n");
+    t.regex(log, /datafile:\.\/data\.json \(imported by .*\):\n  location: "inline" \(from the default\)\n  mode: "text" \(from rules\[1\]\)\n  timing: "sync" \(from rules\[0\]\)/);
+    t.regex(log, /datafile:\.\/hello\.txt\?mode=text \(imported by .*\):\n.*\n  mode: "text" \(from the query string\)\n  timing: "sync" \(from rules\[2\]\)/);
+});
+
+test("reads options from import attributes", async t => {
+    const { default: text } = await evaluate(await build(t, "attributes.js"));
+    t.is(text, "Hello, world!\n");
+});
+
+test("rejects an option that's given different values by the query string and import attributes", async t => {
+    const error = await t.throwsAsync(build(t, "attributes-conflict.js"));
+    t.regex(error.message, /its mode is "text" in the query string and "json" in its import attributes/);
+});
+
+test("rejects an invalid import attribute, pointing to the import", async t => {
+    const error = await t.throwsAsync(build(t, "attributes-invalid.js"));
+    t.regex(error.message, /timing/);
+    t.is(error.loc?.line, 1);
+});
+
+test("rejects a per-file option that's the wrong type, saying where it came from", async t => {
+    const error = await t.throwsAsync(build(t, "inline.js", { rules: [{ test: "**/*.json", namedExports: "yes" }] }));
+    t.regex(error.message, /with namedExports: "yes" \(from rules\[0\]\), but it must be a boolean/);
+});
+
+test("rejects the plugin's own limits when they're invalid", async t => {
+    const error = await t.throwsAsync(build(t, "inline.js", { precompress: { threshold: -1 } }));
+    t.regex(error.message, /precompress\.threshold: -1, but it must be a number of bytes that's 0 or more/);
+});
+
+test("checks JSON against its schema by its own properties, not the ones every object inherits", async t => {
+    const schema = { required: ["name"], properties: { name: { type: "string" }, values: { type: "array" } }, additionalProperties: false };
+    const { json } = await evaluate(await build(t, "inline.js", { rules: [{ test: "**/*.json", schema }] }));
+    t.is(json.name, "data");
+
+    const missing = await t.throwsAsync(build(t, "inline.js", { rules: [{ test: "**/*.json", schema: { required: ["toString"] } }] }));
+    t.regex(missing.message, /does not match its schema:\n\/ is missing the required property "toString"/);
+
+    const extra = await t.throwsAsync(build(t, "inherited.js", { rules: [{ test: "**/*.json", schema: { properties: {}, additionalProperties: false } }] }));
+    t.regex(extra.message, /\/constructor is not an allowed property\n\/toString is not an allowed property/);
+});
+
+test("fills in deferred data once it's been resolved in buildEnd", async t => {
+    let resolve;
+    const generator = {
+        name: "generator",
+        buildStart(options) {
+            const { api } = options.plugins.find(plugin => plugin.name == "rollup-plugin-datafile");
+            api.registerData("late.txt", new Promise(r => resolve = r), { location: "inline", mode: "text", timing: "sync" });
+        },
+        buildEnd() {
+            resolve("Generated late");
+        }
+    };
+    const built = await build(t, "virtual.js", {}, [generator]);
+    t.notRegex(built.output[0].code, /AWAITING_DATAFILE/);
+    const { default: text } = await evaluate(built);
+    t.is(text, "Generated late");
+});
+
+test("lists every file in the manifest", async t => {
+    const built = await build(t, "assets.js", { manifest: true });
+    const { files } = JSON.parse(await readFile(join(built.dir, "datafile-manifest.json"), "utf-8"));
+    const image = files.find(file => file.source.endsWith("image.png"));
+    const text = files.find(file => file.source.endsWith("hello.txt"));
+
+    t.is(image.location, "asset");
+    t.is(image.size, 77);
+    t.is(image.encodedSize, 77);
+    t.regex(image.fileName, /^assets\/image-[0-9a-f]{8}\.png$/);
+    t.regex(image.integrity, /^sha384-/);
+    t.deepEqual(image.chunks, ["assets.mjs"]);
+    t.deepEqual(await readFile(join(built.dir, image.fileName)), await readFile(join(fixtures, "image.png")));
+
+    t.is(text.location, "inline");
+    t.is(text.fileName, null);
+    t.deepEqual(text.chunks, ["assets.mjs"]);
+
+    const { url } = await evaluate(built);
+    t.is(url, image.fileName);
+});
+
+for (const [name, assetUrl, expected] of [
+    ["relative", undefined, (built, fileName) => fileName],
+    ["import-meta", "import-meta", (built, fileName) => pathToFileURL(join(built.dir, fileName)).href],
+    ["publicPath", { publicPath: "https://cdn.example.com/app" }, (built, fileName) => `https://cdn.example.com/app/${fileName}`],
+    ["runtimePublicPath", { runtimePublicPath: "globalThis.ASSET_BASE" }, (built, fileName) => `https://assets.example.com/${fileName}`]
+]) {
+    test(`resolves asset URLs with assetUrl: ${name}`, async t => {
+        globalThis.ASSET_BASE = "https://assets.example.com/";
+        const built = await build(t, "assets.js", { assetUrl });
+        const fileName = built.output.find(file => file.fileName.startsWith("assets/image-")).fileName;
+        const { url } = await evaluate(built);
+        t.is(url, expected(built, fileName));
+    });
+}
+
+test("exports a handle that loads the data on demand with timing: \"lazy\"", async t => {
+    const { inline, asset } = await evaluate(await build(t, "lazy.js", { target: "node" }));
+    t.regex(inline.url, /^data:text\/plain;base64,/);
+    t.regex(asset.url, /assets\/hello-[0-9a-f]{8}\.txt$/);
+    for (const handle of [inline, asset]) {
+        t.false(handle.loaded);
+        t.is(handle.value, undefined);
+        t.is(await handle.load(), "Hello, world!\n");
+        t.true(handle.loaded);
+        t.is(handle.value, "Hello, world!\n");
+    }
+});
+
+test("decodes data as an object URL, a stream, or a WebAssembly module", async t => {
+    const { objectUrl, stream, inlineWasm, wasm } = await evaluate(await build(t, "modes.js", { target: "node" }));
+    t.regex(objectUrl, /^blob:/);
+    t.is(await (await fetch(objectUrl)).text(), "Hello, world!\n");
+    t.is(await new Response(stream).text(), "Hello, world!\n");
+    for (const module of [await inlineWasm, await wasm]) {
+        t.true(module instanceof WebAssembly.Module);
+        t.deepEqual(WebAssembly.Module.exports(module), []);
+    }
+});
+
+test("rejects modes that need the DOM with target: \"node\"", async t => {
+    const error = await t.throwsAsync(build(t, "assets.js", { target: "node", rules: [{ test: "**/*.png", mode: "image-bitmap" }] }));
+    t.regex(error.message, /can't be loaded in Node with mode: "image-bitmap"/);
+});
+
+test("emits files over the inline limit as assets, unless that would change what they're imported as", async t => {
+    const built = await build(t, "sized.js", { target: "node", inlineLimit: 10, inlineBudget: 1000 });
+    const { syncText, asyncText, explicitText } = await evaluate(built);
+    t.is(syncText, "Hello, world!\n");
+    t.is(await asyncText, "Hello, world!\n");
+    t.is(explicitText.length, 1760);
+    t.regex(built.output.filter(file => file.type == "asset").map(file => file.fileName).join(), /^assets\/hello-[0-9a-f]{8}\.txt$/);
+
+    const messages = built.warnings.map(warning => warning.message);
+    t.is(messages.length, 2);
+    t.regex(messages.find(message => message.includes("hello.txt")), /over the inline limit of 10 bytes, but it's still inlined because it has timing: "sync"/);
+    t.regex(messages.find(message => message.includes("repeated.txt")), /it's 1760 bytes, which is over the inline budget of 1000 bytes/);
+});
+
+test("only includes the runtime helpers that are used", async t => {
+    const built = await build(t, "fetched.js");
+    t.regex(built.output[0].code, /function fetchAsset\(/);
+    t.notRegex(built.output[0].code, /fetchAssetWithRetries|withIntegrity|createLazyHandle/);
+});
+
+test("checks the integrity of assets read from disk with target: \"node\"", async t => {
+    const built = await build(t, "fetched.js", { target: "node", integrity: true });
+    t.regex(built.output[0].code, /withIntegrity\(fetchFile, "sha384-[^"]+", nodeDigest\)/);
+    const { default: text } = await evaluate(built);
+    t.is(await text, "Hello, world!\n");
+});
+
+test("generates type declarations that TypeScript accepts", async t => {
+    await mkdir(output, { recursive: true });
+    const declarations = join(output, "types.d.ts");
+    await build(t, "types.js", { typeDeclarations: relative(process.cwd(), declarations), rules: [{ test: "**/image.png", imageMetadata: true }] });
+
+    // (A glob with more than one * can't be a module's name, so it's declared with just one)
+    t.regex(await readFile(declarations, "utf-8"), /declare module "datafile:\.\/glob\/icons\/\*\.svg\?location=inline&mode=text&timing=sync"/);
+
+    const program = ts.createProgram([declarations, join(fixtures, "types-check.ts")], { strict: true, noEmit: true, target: ts.ScriptTarget.ES2020, module: ts.ModuleKind.ESNext, lib: ["lib.es2020.d.ts", "lib.dom.d.ts"], types: [] });
+    const diagnostics = ts.getPreEmitDiagnostics(program);
+    t.is(ts.formatDiagnostics(diagnostics, { getCanonicalFileName: name => name, getCurrentDirectory: () => process.cwd(), getNewLine: () => "\n" }), "");
+});
+
+test("reads the size of a broken PNG from its header, without an average colour", async t => {
+    const { shortHeader, truncated } = await evaluate(await build(t, "broken/images.js", { rules: [{ test: "**/broken/*.png", imageMetadata: true }] }));
+    for (const image of [shortHeader, truncated]) {
+        t.is(image.width, 4);
+        t.is(image.height, 2);
+        t.is(image.averageColor, null);
+    }
+});
+
+test("doesn't mistake any file that starts like an icon for one", async t => {
+    const error = await t.throwsAsync(build(t, "broken/not-an-icon.js", { rules: [{ test: "**/*.bin", imageMetadata: true }] }));
+    t.regex(error.message, /it's not an image format that's recognized/);
+});
+
+test("serves assets from Vite's dev server, for GET and HEAD requests", async t => {
+    const { plugin, request } = createDevServer({ transformFilePath: () => "assets/hello.txt" });
+    await buildWith(t, "fetched.js", [plugin]);
+
+    const response = await request("GET", "/assets/hello.txt?import");
+    t.is(String(response.body), "Hello, world!\n");
+    t.is(response.headers["Content-Type"], "text/plain");
+    const head = await request("HEAD", "/assets/hello.txt");
+    t.is(head.body, undefined);
+    t.is(head.headers["Content-Length"], 14);
+
+    t.is(await request("POST", "/assets/hello.txt"), null);
+    t.is(await request("GET", "/assets/other.txt"), null);
+    t.is(await request("GET", "/%E0%A4%A"), null);
+});
+
+test("sends an HMR update when data is registered again in Vite's dev server", async t => {
+    const { plugin, server } = createDevServer();
+    plugin.api.registerData("late.txt", "First", { location: "inline", mode: "text", timing: "sync" });
+    await buildWith(t, "virtual.js", [plugin]);
+    t.deepEqual(server.reloaded, []);
+
+    plugin.api.registerData("late.txt", "Second", { location: "inline", mode: "text", timing: "sync" });
+    t.is(server.reloaded.length, 1);
+    t.true(server.reloaded[0].startsWith("\0datafile:"));
+});
+
+test("rejects data that was registered as a Promise in Vite's dev server, instead of waiting for buildEnd", async t => {
+    const { plugin } = createDevServer();
+    plugin.api.registerData("late.txt", new Promise(() => { }), { location: "inline", mode: "text", timing: "sync" });
+    const error = await t.throwsAsync(buildWith(t, "virtual.js", [plugin]));
+    t.regex(error.message, /registered as a Promise, so it's deferred until buildEnd, which Vite's dev server never gets to/);
+});
+
+test("lists the precompressed versions of every asset in the manifest, even if it was emitted for another import", async t => {
+    const built = await build(t, "duplicates.js", { manifest: true, precompress: true });
+    const { files } = JSON.parse(await readFile(join(built.dir, "datafile-manifest.json"), "utf-8"));
+    t.is(files.length, 2);
+    t.is(files[0].fileName, files[1].fileName);
+    for (const file of files)
+        t.deepEqual(file.precompressed, [`${file.fileName}.gz`, `${file.fileName}.br`]);
+    t.is(built.output.filter(file => file.fileName.startsWith("assets/")).length, 3);
+});
+
+for (const namedExports of [false, true]) {
+    test(`keeps "__proto__" keys in JSON as keys${namedExports ? " with namedExports" : ""}`, async t => {
+        const { default: data } = await evaluate(await build(t, "proto.js", { rules: [{ test: "**/*.json", namedExports }] }));
+        t.is(Object.getPrototypeOf(data), Object.prototype);
+        t.deepEqual(Object.keys(data), ["__proto__", "nested"]);
+        t.is(Object.getOwnPropertyDescriptor(data, "__proto__").value.polluted, true);
+        t.deepEqual(Object.keys(data.nested), ["__proto__"]);
+    });
+}
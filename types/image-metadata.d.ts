@@ -0,0 +1,17 @@
+/// <reference types="node" />
+export interface ImageMetadata {
+    width: number;
+    height: number;
+    /** The MIME type, as detected from the file's contents (not its extension) */
+    mime: string;
+    /** The average colour of the image (weighted by alpha), as `#rrggbb`. Only available for (non-interlaced, 8-bit) PNGs. */
+    averageColor: string | null;
+}
+/**
+ * Reads the size of an image from just its header, for all the common web image formats.
+ *
+ * (Note that a JPEG's EXIF orientation isn't taken into account, so rotated photos will have their width and height swapped)
+ *
+ * @returns `null` if the image's format isn't recognized.
+ */
+export declare function getImageMetadata(data: Buffer): ImageMetadata | null;
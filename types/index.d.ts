@@ -1,9 +1,20 @@
 /// <reference types="node" />
+/// <reference types="node" />
+/// <reference types="node" />
 import { FilterPattern } from "@rollup/pluginutils";
-import { InputPluginOption } from "rollup";
+import type { IncomingMessage, ServerResponse } from "http";
+import { Plugin } from "rollup";
+import { JsonSchema } from "./json-schema";
 type FetchLocation = "inline" | "asset";
-type FetchMethod = "sync" | "async";
-type FetchTypeMode = "json" | "array-buffer" | "text" | "blob" | "response";
+type FetchMethod = "sync" | "async" | "lazy";
+type FetchTypeMode = "json" | "array-buffer" | "text" | "blob" | "response" | "object-url" | "stream" | "image-bitmap" | "font-face" | "wasm-module";
+export type IntegrityAlgorithm = "sha256" | "sha384" | "sha512";
+export type InlineCompression = "gzip" | "deflate";
+export type PrecompressFormat = "gzip" | "brotli";
+export type InlineEncoding = "base64" | "base85" | "latin1";
+export type DataFileFallback = "inline" | {
+    value: unknown;
+};
 interface DataPluginInfo {
     /** The original import path this asset was imported from (e.g. the string in `import data from "datafile:foo.png"`) */
     import: string;
@@ -11,10 +22,12 @@ interface DataPluginInfo {
     uniqueId: number;
     /** The original import where this file can be found, but normalized to a full path (e.g. "foo.png" in `import data from "datafile:foo.png"`, but as a full path) */
     inputFilePath: string;
-    outputDirectory: string;
     outputFilePath: string | null;
     rawData: Buffer | null;
+    hashContent: string | null;
+    assetFileName: string | null;
     fileReferenceId: string | undefined;
+    dirty: boolean;
     /**
      * Controls whether you get your file data synchronously or asynchronously, and by extension whether `fetch` is used to decode off the main thread.
      *
@@ -26,6 +39,7 @@ interface DataPluginInfo {
      * |`inline`|`async`|Embedded in the bundle|A promise to the file as a `Blob`, `JSON`, etc.|`fetch` is used to decode the Base64 off the main thread, but you must `await` the promise to get your import at some point.|
      * |`asset`|`sync`|Emitted as a separate file|The URL to the file|The asset is saved as a separate file. When importing, you're given the relative URL as a `string` to use in `<img>`s and so forth.|
      * |`asset`|`async`|Emitted as a separate file|A promise to the file as a `Blob`, `JSON`, etc.|The asset is saved as a separate file. When importing, you're given the file itself as a `Blob` or a `JSON` or whatever.|
+     * |(either)|`lazy`|(either)|A `LazyDataHandle`|Nothing is fetched or decoded until you call `load()` on the handle (or `preload()`). Inline data is embedded as a `data:` URL.|
      *
      *
      */
@@ -54,18 +68,235 @@ interface DataPluginInfo {
      * * `json`: Returns an object/array
      * * `text`: Returns a `string`
      * * `response`: Returns the raw `Response` from `fetch`
+     * * `object-url`: Returns a `blob:` URL from `URL.createObjectURL` (for `<img>`s and so on, even when the file's inline)
+     * * `stream`: Returns a `ReadableStream` of the file's bytes
+     * * `image-bitmap`: Returns an `ImageBitmap` from `createImageBitmap` (not available with `target: "node"`)
+     * * `font-face`: Returns a loaded `FontFace`, named after the file (change its `family` before adding it to `document.fonts` if you like). Not available with `target: "node"`.
+     * * `wasm-module`: Returns a compiled `WebAssembly.Module` (with `WebAssembly.compileStreaming` when possible)
+     *
+     * `image-bitmap`, `font-face`, and `wasm-module` are always asynchronous (like `response`), even when the file's inline.
      *
      * Note that this is not used if `location` is `"asset"` *and* `timing` is `"sync"`.
      */
     mode: FetchTypeMode;
     /** Only used when `location` is `"inline"`. */
     mime: string;
+    /**
+     * When `true`, each top-level key of a JSON object is also available as a named export (like `@rollup/plugin-json`),
+     * so that the parts of a large file that you don't use can be tree-shaken away.
+     *
+     * Only used when `location` is `"inline"` and `mode` is `"json"`. Can't be combined with `deferred`.
+     */
+    namedExports: boolean;
+    /**
+     * If provided, the file is checked against this JSON Schema at build time, and the build fails if it doesn't match.
+     *
+     * Only used when `mode` is `"json"`. See `JsonSchema` for the keywords that are supported.
+     */
+    schema: JsonSchema | null;
+    /**
+     * When `true`, the image's `width`, `height`, `mime` and `size` (in bytes) are also available as named exports, read from the file's header at build time.
+     *
+     * PNGs also export their `averageColor` (as `"#rrggbb"`), which can be used as a placeholder while the image loads; it's `null` for other formats.
+     *
+     * Can't be combined with `deferred`.
+     */
+    imageMetadata: boolean;
+    /**
+     * If the file's `location` wasn't chosen explicitly (by extension, path, import attribute, or query param),
+     * then files larger than this many bytes are emitted as assets, and anything smaller is inlined.
+     *
+     * Only the per-file value is kept here; it's `null` when the location was chosen explicitly (or there's no limit).
+     */
+    inlineLimit: number | null;
+    /**
+     * When set, assets that are fetched (`location: "asset"` with `timing: "async"` or `"lazy"`) are checked against a hash of the file that's computed at build time,
+     * and the import rejects (naming the file) if what was fetched doesn't match, e.g. because a CDN served something else.
+     *
+     * The hash is passed to `fetch` as its `integrity` option, or checked with `crypto.subtle.digest` where that isn't supported (like when reading files with `target: "node"`).
+     *
+     * `true` is the same as `"sha384"`.
+     */
+    integrity: boolean | IntegrityAlgorithm;
+    /**
+     * Preprocesses the file's data at build time (minifying it, converting it from another format, etc.) before it's inlined or emitted.
+     *
+     * It can also change the file's `mime` and `mode` (e.g. a YAML file that's converted to `mode: "json"`).
+     * The result is cached by the file's contents, so in watch mode it only runs again when the file actually changes.
+     *
+     * Can't be combined with `deferred`.
+     */
+    transform: DataFileTransform | null;
+    /**
+     * When set, inline data is compressed at build time and decompressed at runtime with `DecompressionStream`,
+     * but only if that actually makes it smaller (how much was saved is logged either way).
+     *
+     * Only used when `location` is `"inline"`. Decompressing is asynchronous, so `timing` must be `"async"`, and it's not available with `target: "worklet"`.
+     * JSON files with `namedExports` are never compressed.
+     */
+    compress: InlineCompression | null;
+    compressedData: Buffer | null;
+    compressedHash: string | null;
+    precompressed: {
+        hash: string;
+        sidecars: Array<{
+            extension: string;
+            data: Buffer;
+        }>;
+    } | null;
+    untransformed: Pick<DataPluginInfo, "mode" | "mime">;
+    transformCache: {
+        rawHash: string;
+        result: DataFileTransformResult;
+    } | null;
+    /**
+     * How inline binary data (and compressed data) is written into the bundle:
+     *
+     * * `base64` (the default): A `data:` URL, 4 bytes for every 3. Decoded with `Uint8Array.fromBase64` where it's available.
+     * * `base85`: Z85 (a variant of Ascii85 that's safe in string literals), 5 bytes for every 4, so about 6% smaller than base64 (but only before gzip).
+     * * `latin1`: A string with one character per byte, which is the fastest to decode. Bytes over 127 take up 2 bytes in a UTF-8 bundle,
+     *   so it's only smaller for data that's mostly ASCII (like uncompressed formats), and much larger for anything that's already compressed.
+     *
+     * Run `pnpm benchmark` to compare them. Lazy files are always base64 (their data URL is their `url`), and text and JSON are always embedded as they are.
+     */
+    encoding: InlineEncoding;
+    /**
+     * How many more times an asset is fetched after the first attempt fails (because the network failed, the request timed out, or the server responded with 408, 429, or 5xx).
+     *
+     * Only used when the asset's fetched (`location: "asset"` with `timing: "async"` or `"lazy"`). Defaults to `0`.
+     */
+    retries: number;
+    /** How long to wait before the first retry, in milliseconds (it doubles after every retry). Defaults to `1000`. */
+    retryDelay: number;
+    /** How long each attempt to fetch an asset can take to respond, in milliseconds, or `null` to wait as long as it takes (the default). */
+    timeout: number | null;
+    /**
+     * What an asset that couldn't be fetched (after all its retries) resolves to, instead of rejecting with a `DataFileLoadError`:
+     *
+     * * `"inline"`: An inline copy of the same data, embedded in the bundle just in case (so only use this for small files).
+     * * `{ value }`: The given value (anything JSON can represent), whatever the file's `mode`.
+     */
+    fallback: DataFileFallback | null;
+    /**
+     * Normally, files are read as soon as they're imported, and embedded (or emitted) right then.
+     *
+     * When `true`, the file isn't read until `buildEnd` instead (after everything in `api.promisesToWaitFor`), for files that other plugins create late in the build.
+     * Its data (or URL) is filled into each chunk during `renderChunk`. Defaults to `true` for data registered with `api.registerData` as a `Promise`.
+     *
+     * Can't be combined with `transform`, `imageMetadata`, or `namedExports`, which all need the file's contents when it's imported.
+     */
+    deferred: boolean;
+    locationIsExplicit: boolean;
+    inlinedLength: number | null;
+}
+/** What a file's `transform` is told about the file it's transforming. */
+export interface DataFileTransformInfo {
+    /** The full path of the file */
+    path: string;
+    location: FetchLocation;
+    mode: FetchTypeMode;
+    timing: FetchMethod;
+    mime: string;
+}
+/** The new data, optionally with a new `mime` and/or `mode`. */
+export type DataFileTransformResult = DataSource | {
+    data: DataSource;
+    mime?: string;
+    mode?: FetchTypeMode;
+};
+export type DataFileTransform = (data: Buffer, info: DataFileTransformInfo) => DataFileTransformResult | Promise<DataFileTransformResult>;
+/** Anything that can be used as a file's data (a `string` is encoded as UTF-8). */
+export type DataSource = Buffer | Uint8Array | string;
+/**
+ * What other plugins can use to work with this one (by finding it in `options.plugins` and using its `api`).
+ */
+export interface DataPluginApi {
+    /** This plugin won't read any files until all of these resolve (see "Synchronization" in the README). */
+    promisesToWaitFor: Set<Promise<void>>;
+    /** The reference id of each emitted asset, keyed by the file name it asked for. */
+    filePathsToEmitIds: Map<string, string>;
+    /**
+     * Makes `data` importable as `datafile:virtual:<name>`, with the same `location`/`mode`/`timing` handling as a real file.
+     *
+     * Must be called before the import is resolved (e.g. in `buildStart`), but `data` can be a `Promise` that resolves later (e.g. during your `buildEnd`).
+     * Registering the same name again (e.g. on every rebuild in watch mode) replaces its data.
+     *
+     * `options` takes priority over `fileTypes` and `fileOptions`, but not over the import's own query params or import attributes.
+     */
+    registerData(name: string, data: DataSource | Promise<DataSource>, options?: PerFileOptions): void;
+}
+/**
+ * What you get when importing a file with `timing: "lazy"`: nothing's fetched (or decoded) until you ask for it.
+ *
+ * Every importer shares the same handle, so the file is only ever loaded once.
+ */
+export interface LazyDataHandle<T> {
+    /** The URL of the file (a `data:` URL when it's inline) */
+    readonly url: string;
+    /** The file's data, once it's loaded (`undefined` until then) */
+    readonly value: T | undefined;
+    /**
+     * Loads the file, or returns the load that's already in progress.
+     *
+     * If a `signal` is given and aborted, the returned promise rejects; the download itself is only cancelled when everyone waiting on it has aborted.
+     */
+    load(signal?: AbortSignal): Promise<T>;
+    /** Starts loading the file in the background (errors are ignored until someone calls `load`). */
+    preload(): void;
+}
+/**
+ * What an asset's import rejects with when it couldn't be fetched (after all its `retries`, and only if it has no `fallback`).
+ *
+ * The class itself lives in the runtime helpers, so check its `name` instead of using `instanceof`.
+ */
+export interface DataFileLoadError extends Error {
+    name: "DataFileLoadError";
+    /** The `datafile:` import that couldn't be loaded */
+    readonly id: string;
+    /** The last HTTP status that was received, or `null` if there wasn't one (the network failed, the request timed out, etc.) */
+    readonly status: number | null;
+}
+/** The parts of Vite's resolved config that this plugin uses (just the shape, so that it doesn't depend on Vite). */
+export interface ViteResolvedConfigLike {
+    root: string;
+    base: string;
+}
+/** The parts of a module in Vite's module graph that this plugin uses. */
+export interface ViteModuleNodeLike {
+    id: string | null;
+}
+/** The parts of Vite's dev server that this plugin uses. */
+export interface ViteDevServerLike {
+    middlewares: {
+        use(handler: (req: IncomingMessage, res: ServerResponse, next: () => void) => void): unknown;
+    };
+    moduleGraph: {
+        getModuleById(id: string): ViteModuleNodeLike | undefined;
+        invalidateModule(module: ViteModuleNodeLike): void;
+    };
+    /** Invalidates a module and sends an HMR update for it (only invalidating it doesn't tell the browser anything). Vite 3.2 and later. */
+    reloadModule?(module: ViteModuleNodeLike): Promise<void>;
+}
+/** The extra hooks that Vite calls (and Rollup ignores), which make `datafile:` imports work in Vite's dev server. */
+export interface DataPluginViteHooks {
+    configResolved(config: ViteResolvedConfigLike): void;
+    configureServer(server: ViteDevServerLike): void;
+    handleHotUpdate(context: {
+        file: string;
+        modules: ViteModuleNodeLike[];
+        server: ViteDevServerLike;
+    }): ViteModuleNodeLike[] | void;
 }
 /**
  * The options that are available on a per-file (or per-extension) basis.
  */
-export interface PerFileOptions extends Partial<Pick<DataPluginInfo, "location" | "mode" | "timing" | "mime">> {
+export interface PerFileOptions extends Partial<Pick<DataPluginInfo, "location" | "mode" | "timing" | "mime" | "namedExports" | "schema" | "imageMetadata" | "inlineLimit" | "integrity" | "transform" | "compress" | "encoding" | "retries" | "retryDelay" | "timeout" | "fallback" | "deferred">> {
+}
+export interface DataRule extends PerFileOptions {
+    /** Which files this rule applies to (matched against their full path) */
+    test: FilterPattern;
 }
+export type { JsonSchema, JsonSchemaType } from "./json-schema";
 export interface DataPluginOptions {
     /**
      * Files prefixed with `datafile:` will always be included, but this can be used to load files even if they don't.
@@ -89,6 +320,18 @@ export interface DataPluginOptions {
      * For example, you can `fetch` and simply return a `Response`, or a `Blob`.
      */
     fileOptions?(fullPath: string): PerFileOptions;
+    /**
+     * Per-file options for every file whose full path matches `test` (a glob, regex, or array of them, like `include`).
+     *
+     * When more than one rule matches a file, the first rule to set a given option wins.
+     *
+     * Rules take priority over `fileTypes`, but `fileOptions`, `api.registerData`'s options, import attributes, and query params all take priority over them.
+     */
+    rules?: DataRule[];
+    /**
+     * When `true`, logs where each file's `location`, `mode`, `timing`, and `mime` came from (which rule, query param, etc.).
+     */
+    debug?: boolean;
     /**
      * Choose how files are handled on a per-extension basis.
      *
@@ -103,7 +346,12 @@ export interface DataPluginOptions {
      * Given the full path of the imported asset, this must return a non-absolute non-relative path, like "assets/banner.png"
      * that will be relative to the output directory.
      *
-     * Default is the path relative to the importer, which may become weird if ".." paths are used and dumps everything in the output's root folder.
+     * The returned path can contain the placeholders `[name]`, `[ext]`, `[hash]` and `[pathHash]` (see `interpolateAssetPath`),
+     * and it's only called once the file's contents are known, so `hashContent` is always available.
+     *
+     * Files with identical contents are only emitted once, under whichever name was asked for first.
+     *
+     * Default is `"assets/[name]-[hash:8][ext]"`.
      */
     transformFilePath?(info: TransformFilePathInfo): string;
     /**
@@ -116,7 +364,110 @@ export interface DataPluginOptions {
      * @default `"decode-asset"`
      */
     helperFileName?: string | null;
+    /**
+     * If provided, a `.d.ts` file is written to this path (relative to the project root) during every build,
+     * with an ambient `declare module` for each `datafile:` import that was found, typed according to its `location`, `timing`, `mode`, and `useTopLevelAwait`.
+     *
+     * `.json` files imported with `mode: "json"` are given a type derived from their actual contents.
+     *
+     * The file is only written when its contents change, so it's safe to include in your `tsconfig.json`.
+     */
+    typeDeclarations?: string | null;
+    /**
+     * Controls how the URL of an emitted asset is written into the bundle (both the URL you get with `timing: "sync"`, and the URL that's `fetch`ed otherwise).
+     *
+     * * `"relative"`: The asset's path relative to the output directory, which the browser resolves against the *page's* URL. Only works when the page is served from the same folder as the bundle.
+     * * `"import-meta"`: The asset's path relative to the chunk that imports it, resolved against that chunk's own URL at runtime (`new URL("../assets/file.png", import.meta.url)`, or the equivalent for non-ES formats). Works no matter where the page or the chunk is served from.
+     * * `{ publicPath: "https://cdn.example.com/" }`: The asset's path, prefixed with a fixed base URL (e.g. a CDN or a sub-path).
+     * * `{ runtimePublicPath: "window.ASSET_BASE" }`: The asset's path, prefixed with whatever the given JS expression evaluates to at runtime.
+     *
+     * @default `"relative"`
+     */
+    assetUrl?: AssetUrlOption;
+    /**
+     * The environment the bundle runs in, which changes how files are loaded:
+     *
+     * * `"browser"`: Assets are loaded with `fetch`.
+     * * `"worker"`: Same as `"browser"`, but without relying on `document`.
+     * * `"worklet"`: Worklets have no `fetch`, `Blob`, or `Response`, so only inline files with the `"text"`, `"json"`, or `"array-buffer"` modes are allowed (anything else is a build error). Base64 is decoded without `atob`.
+     * * `"node"`: Assets are read from disk with `fs`, relative to the chunk that imports them (so `assetUrl` defaults to `"import-meta"`).
+     *
+     * @default `"browser"`
+     */
+    target?: RuntimeTarget;
+    /**
+     * Files larger than this many bytes are emitted as assets instead of being inlined, unless their `location` was chosen explicitly
+     * (by extension, path, import attribute, or query param).
+     *
+     * Can also be set per extension or per file, which takes priority over this.
+     */
+    inlineLimit?: number;
+    /**
+     * If a file that was explicitly chosen to be inlined is larger than this many bytes, a warning is shown.
+     */
+    inlineBudget?: number;
+    /**
+     * The default for each file's `integrity`: when set, fetched assets are checked against a hash computed at build time, and the import rejects if they don't match.
+     *
+     * Can also be set per extension or per file, which takes priority over this.
+     */
+    integrity?: boolean | IntegrityAlgorithm;
+    /**
+     * When set, each emitted asset that's worth compressing also gets `.gz` and/or `.br` versions emitted next to it,
+     * for servers that can serve precompressed files (like nginx's `gzip_static`).
+     *
+     * `true` uses the defaults in `PrecompressOptions`.
+     */
+    precompress?: boolean | PrecompressOptions;
+    /**
+     * If provided, a JSON file is emitted with this name (or `"datafile-manifest.json"` if `true`) listing every file this plugin handled:
+     * where it came from, how it was included, how large it was before and after encoding, which chunks include it, what its asset is named, and its SHA-384 integrity hash.
+     *
+     * See `ManifestEntry` for the exact format.
+     */
+    manifest?: boolean | string;
+}
+export interface PrecompressOptions {
+    /** @default `["gzip", "brotli"]` */
+    formats?: PrecompressFormat[];
+    /** Assets smaller than this many bytes aren't precompressed. @default 1024 */
+    threshold?: number;
+    /**
+     * Which MIME types are worth compressing.
+     *
+     * By default, text, JSON, XML, SVG, JavaScript, and WASM are (anything that's already compressed, like most images, fonts, and video, isn't).
+     */
+    mimes?: (mime: string) => boolean;
 }
+/** The format of `manifest`, which is an object with a `files` array of these. */
+export interface ManifestEntry {
+    /** Every import id that resolved to this file (e.g. `"datafile:./banner.png?location=asset"`) */
+    imports: string[];
+    /** The path of the source file, relative to the project root (always separated with `/`) */
+    source: string;
+    location: FetchLocation;
+    mode: FetchTypeMode;
+    timing: FetchMethod;
+    mime: string;
+    /** The size of the file itself, in bytes */
+    size: number;
+    /** How many bytes one copy of the file takes up in the output: the size of the asset, or the size of the literal it's inlined as (which every chunk in `chunks` has a copy of). `null` if it's inlined and wasn't rendered. */
+    encodedSize: number | null;
+    /** The chunks that include this file (inline data is duplicated in each of them) */
+    chunks: string[];
+    /** The name of the emitted asset (or `null` if it was inlined) */
+    fileName: string | null;
+    /** A subresource integrity string, like `"sha384-..."` */
+    integrity: string;
+    /** The names of the asset's `.gz`/`.br` versions, if `precompress` is on (and they were worth emitting) */
+    precompressed: string[];
+}
+export type RuntimeTarget = "browser" | "worker" | "worklet" | "node";
+export type AssetUrlOption = "relative" | "import-meta" | {
+    publicPath: string;
+} | {
+    runtimePublicPath: string;
+};
 export interface TransformFilePathInfo {
     /** The full path from the root of your local disk */
     /** The path relative to the project root */
@@ -125,10 +476,25 @@ export interface TransformFilePathInfo {
     fileName: string;
     /** The file's extension (including the period at the star) */
     fileExtWithDot: string;
-    /** A string of the hash of `pathRelative` (not the file's contents, as it may not be available.) */
+    /** A string of the hash of `pathRelative`. */
     hashPathRelative: string;
+    /** A string of the hash of the file's contents (`[hash]` in a path pattern). */
+    hashContent: string;
 }
-export declare function getDefaultAssetPathInfo(fullFilePath: string, projectRootDir: string): TransformFilePathInfo;
-export declare function getDefaultAssetPath({ fileExtWithDot, fileName }: TransformFilePathInfo): string;
-export default function dataPlugin({ fileOptions, transformFilePath, fileTypes, useTopLevelAwait, exclude, include, helperFileName }?: Partial<DataPluginOptions>): InputPluginOption;
+export declare function getDefaultAssetPathInfo(fullFilePath: string, projectRootDir: string, contents: Buffer): TransformFilePathInfo;
+export declare function getDefaultAssetPath(info: TransformFilePathInfo): string;
+/**
+ * Replaces the placeholders in a path returned by `transformFilePath`:
+ *
+ * * `[name]`: The name of the file, without its extension
+ * * `[ext]`: The file's extension, including the period
+ * * `[hash]` or `[hash:8]`: The hash of the file's contents (optionally truncated to the given length)
+ * * `[pathHash]` or `[pathHash:8]`: The hash of the file's path relative to the project root
+ *
+ * Paths without any placeholders are returned as-is.
+ */
+export declare function interpolateAssetPath(pattern: string, { fileName, fileExtWithDot, hashContent, hashPathRelative }: TransformFilePathInfo): string;
+export default function dataPlugin({ fileOptions, transformFilePath, fileTypes, useTopLevelAwait, exclude, include, helperFileName, typeDeclarations, assetUrl, target, inlineLimit, inlineBudget, integrity, precompress, manifest, rules, debug }?: Partial<DataPluginOptions>): Plugin & DataPluginViteHooks & {
+    api: DataPluginApi;
+};
 export { dataPlugin };
@@ -0,0 +1,32 @@
+export type JsonSchemaType = "null" | "boolean" | "number" | "integer" | "string" | "array" | "object";
+/**
+ * The subset of [JSON Schema](https://json-schema.org/) that's checked at build time.
+ *
+ * Any other keywords (`$ref`, `format`, etc.) are ignored.
+ */
+export interface JsonSchema {
+    type?: JsonSchemaType | JsonSchemaType[];
+    enum?: unknown[];
+    const?: unknown;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JsonSchema;
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minimum?: number;
+    maximum?: number;
+    allOf?: JsonSchema[];
+    anyOf?: JsonSchema[];
+    oneOf?: JsonSchema[];
+    not?: JsonSchema;
+}
+/**
+ * Checks a parsed JSON value against a schema.
+ *
+ * @returns A list of every problem found, each prefixed with a JSON pointer to where it was found (e.g. `/sizes/2`). Empty if the value is valid.
+ */
+export declare function validateJsonSchema(value: unknown, schema: JsonSchema, pointer?: string): string[];
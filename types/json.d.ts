@@ -0,0 +1,9 @@
+/**
+ * Finds the character offset of the first syntax error in some (invalid) JSON text.
+ *
+ * `JSON.parse` only sometimes mentions where things went wrong, depending on the error and the version of V8,
+ * so this walks through the text itself just to find that position. It's only ever used after `JSON.parse` has already failed.
+ *
+ * @returns The offset of the first character that can't be part of valid JSON, or `null` if the text seems valid after all.
+ */
+export declare function findJsonErrorPosition(text: string): number | null;